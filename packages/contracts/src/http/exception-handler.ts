@@ -0,0 +1,11 @@
+import HttpRequestContract from './request';
+import HttpResponseContract from './response';
+
+export default interface ExceptionHandlerContract {
+  report(error: unknown, req: HttpRequestContract): void | Promise<void>;
+  render(
+    error: unknown,
+    req: HttpRequestContract,
+    res: HttpResponseContract
+  ): HttpResponseContract | Promise<HttpResponseContract>;
+}
@@ -1,8 +1,11 @@
+export { default as ExceptionHandlerContract } from './exception-handler';
 export { default as HttpRequestContract } from './request';
 export { default as HttpResponseContract } from './response';
 export { default as HttpRouteContract } from './route';
 export { default as HttpRouterContract } from './router';
 export { default as HttpServerContract } from './server';
+export { default as SerializerRegistryContract } from './serializers';
+export { default as UploadedFileContract } from './uploaded-file';
 export { default as ValidatorContract } from './validator';
 export { default as WebSocketRouterContract } from './wsRouter';
 export { default as WSSessionManagerContract } from './wsSession';
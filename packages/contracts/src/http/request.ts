@@ -1,3 +1,5 @@
+import { RequestConnection, RouteSchemas, ValidatedInput } from '../types';
+import UploadedFileContract from './uploaded-file';
 import ValidatorContract from './validator';
 
 export default interface HttpRequestContract {
@@ -7,6 +9,12 @@ export default interface HttpRequestContract {
   get headers(): Headers;
   get cookieHeader(): string | null;
   get cookies(): Record<string, string>;
+  get ip(): string;
+  get ips(): string[];
+  get protocol(): string;
+  get hostname(): string;
+  get secure(): boolean;
+  get signal(): AbortSignal;
 
   getIp(): string;
   getUrl(baseOnly?: boolean): string;
@@ -15,6 +23,7 @@ export default interface HttpRequestContract {
   getBody<T = unknown>(): T;
 
   isAjax(): boolean;
+  accepts(...types: string[]): string | undefined;
   isJson(): boolean;
   isValidContentType(): boolean;
   isMethod(method: string): boolean;
@@ -30,6 +39,12 @@ export default interface HttpRequestContract {
   getContext<T = unknown>(key?: string): T | undefined;
 
   setParams(params: Record<string, string>): this;
+  setFiles(files: UploadedFileContract[]): this;
+  setConnection(connection: RequestConnection): this;
+  setId(id: string): this;
+  setSignal(signal: AbortSignal): this;
+  setValidated(input: ValidatedInput): this;
+  validated<S extends RouteSchemas = RouteSchemas>(): ValidatedInput<S>;
   setSession(session: Record<string, unknown>): void;
   getSession<T = unknown>(key?: string): T | undefined;
 
@@ -53,6 +68,9 @@ export default interface HttpRequestContract {
   getRoute<T = unknown>(key: string, defaultVal: T): T;
   getRoute<T = unknown>(key: string, defaultVal?: T): T | undefined;
 
+  file(key: string): UploadedFileContract | undefined;
+  files(key?: string): UploadedFileContract[];
+
   getValidator(path: string): ValidatorContract;
   getHeader(key: string, defaultValue?: string): string | undefined;
 
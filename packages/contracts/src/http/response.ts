@@ -1,21 +1,58 @@
-import { CookieOptions, HttpStatusCode } from '../types';
+import {
+  CacheControlOptions,
+  CookieOptions,
+  HttpStatusCode,
+  NegotiationHandlers,
+  ProblemDetails,
+  RouteUrlParams,
+  RouteUrlQuery,
+  SendFileOptions,
+  ServerSentEventSender,
+  ServerSentEventStreamOptions,
+  StoredFileOptions,
+} from '../types';
 
 export default interface HttpResponseContract {
   text(data: string): this;
   html(data: string): this;
   json(data: unknown): this;
+  problem(details: ProblemDetails): this;
+  send(data: unknown, formats?: string[]): this;
+  negotiate(handlers: NegotiationHandlers): this;
   redirect(url: string): this;
+  redirectToRoute(
+    name: string,
+    params?: RouteUrlParams,
+    query?: RouteUrlQuery
+  ): this;
   runEndHooks(): Promise<void>;
   getFinalResponse(): Response;
+  getBody(): BodyInit | null;
   getStatusCode(): HttpStatusCode;
   notFound(message?: string): this;
   status(code: HttpStatusCode): this;
   header(name: string, value: string): this;
+  getHeader(name: string): string | null;
+  etag(value?: string, weak?: boolean): this;
+  lastModified(date: Date | number | string): this;
+  cache(options: CacheControlOptions): this;
+  notModified(): this;
   onEnd(hook: () => void | Promise<void>): void;
+  onSend(hook: (response: Response) => Response): void;
   cookie(name: string, value: string, options?: CookieOptions): this;
   file(
     buffer: ArrayBuffer | Uint8Array,
     contentType: string,
     filename?: string
   ): this;
+  fromStorage(path: string, options?: StoredFileOptions): Promise<this>;
+  sendFile(path: string, options?: SendFileOptions): Promise<this>;
+  stream(
+    body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>,
+    contentType?: string
+  ): this;
+  sse(
+    handler: (send: ServerSentEventSender) => void | Promise<void>,
+    options?: ServerSentEventStreamOptions
+  ): this;
 }
@@ -1,7 +1,20 @@
-import { HttpMethod, HttpMiddleware, RouteData } from '../types';
+import {
+  HttpMethod,
+  HttpMiddleware,
+  MiddlewareReference,
+  RouteData,
+} from '../types';
 
 export default interface HttpRouteContract {
   getModule(): RouteData;
+  getMethod(): HttpMethod;
+  getPath(): string;
+  getMiddleware(): MiddlewareReference[];
+  handlers(): HttpMiddleware[];
+  /**
+   * @deprecated Use getMiddleware() for the route middleware and
+   * handlers() for what runs after it.
+   */
   middlewares(): HttpMiddleware[];
-  matches(method: HttpMethod, url: string): boolean;
+  matches(method: HttpMethod, url: string, host?: string): boolean;
 }
@@ -1,19 +1,51 @@
 import {
   HttpMethod,
   HttpMiddleware,
+  HttpMiddlewareFactory,
   HttpRouterGroupOptions,
   MetaData,
+  MiddlewareReference,
+  ResourceController,
+  ResourceOptions,
+  RouteUrlParams,
+  RouteUrlQuery,
+  SignedUrlOptions,
 } from '../types';
 import HttpRouteContract from './route';
 
 export default interface HttpRouterContract {
   setModule(module: string, modulePath: string): this;
   group(options: HttpRouterGroupOptions, callback: () => void): this;
-  match(method: HttpMethod, url: string): HttpRouteContract | undefined;
+  aliasMiddleware(name: string, factory: HttpMiddlewareFactory): this;
+  middlewareGroup(name: string, middleware: MiddlewareReference[]): this;
+  middlewarePriority(names: string[]): this;
+  resolveMiddleware(
+    middleware: MiddlewareReference[],
+    exclude?: MiddlewareReference[]
+  ): HttpMiddleware[];
+  match(
+    method: HttpMethod,
+    url: string,
+    host?: string
+  ): HttpRouteContract | undefined;
+  getRoutes(): HttpRouteContract[];
+  allowedMethods(url: string, host?: string): HttpMethod[];
+  url(name: string, params?: RouteUrlParams, query?: RouteUrlQuery): string;
+  signedUrl(
+    name: string,
+    params?: RouteUrlParams,
+    options?: SignedUrlOptions
+  ): string;
 
   put(path: string, handler: HttpMiddleware, meta?: MetaData): this;
   get(path: string, handler: HttpMiddleware, meta?: MetaData): this;
   post(path: string, handler: HttpMiddleware, meta?: MetaData): this;
   patch(path: string, handler: HttpMiddleware, meta?: MetaData): this;
   delete(path: string, handler: HttpMiddleware, meta?: MetaData): this;
+
+  resource(
+    path: string,
+    controller: ResourceController,
+    options?: ResourceOptions
+  ): this;
 }
@@ -0,0 +1,8 @@
+import { ResponseSerializer } from '../types';
+
+export default interface SerializerRegistryContract {
+  formats(): string[];
+  has(format: string): boolean;
+  get(format: string): ResponseSerializer | undefined;
+  register(format: string, serializer: ResponseSerializer): this;
+}
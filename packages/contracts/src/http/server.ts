@@ -1,9 +1,17 @@
 import { Server as BunServer } from 'bun';
-import { HttpMiddleware } from '../types';
+import {
+  HttpErrorMiddleware,
+  HttpMiddleware,
+  MiddlewareReference,
+} from '../types';
+import ExceptionHandlerContract from './exception-handler';
 export default interface HttpServerContract {
   stop(): Promise<void>;
   start(): Promise<void>;
-  use(middleware: HttpMiddleware): this;
+  use(middleware: MiddlewareReference): this;
+  useBeforeRouting(middleware: HttpMiddleware): this;
+  useErrorMiddleware(middleware: HttpErrorMiddleware): this;
+  setExceptionHandler(handler: ExceptionHandlerContract): this;
   handle(
     nativeRequest: Request,
     server: BunServer
@@ -0,0 +1,18 @@
+export default interface UploadedFileContract {
+  readonly size: number;
+  readonly name: string;
+  readonly field: string;
+  readonly clientType: string;
+
+  extension(): string;
+  mimeType(): Promise<string>;
+  hasExtension(...extensions: string[]): boolean;
+  hasMimeType(...types: string[]): Promise<boolean>;
+
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+
+  delete(): Promise<void>;
+  store(disk?: string, directory?: string): Promise<string>;
+  storeAs(disk: string | undefined, path: string): Promise<string>;
+}
@@ -1,4 +1,5 @@
 export * from './cache';
 export * from './core';
 export * from './http';
+export * from './storage';
 export * from './types';
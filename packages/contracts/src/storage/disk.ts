@@ -0,0 +1,15 @@
+import { StorageContents, StorageFileStat } from '../types';
+
+export default interface StorageContract {
+  url(path: string): string;
+  temporaryUrl(path: string, expiresIn: number): string;
+
+  exists(path: string): Promise<boolean>;
+  delete(path: string): Promise<boolean>;
+  list(directory?: string): Promise<string[]>;
+
+  get(path: string): Promise<Buffer | null>;
+  stat(path: string): Promise<StorageFileStat | null>;
+  stream(path: string): Promise<ReadableStream<Uint8Array> | null>;
+  put(path: string, contents: StorageContents): Promise<void>;
+}
@@ -0,0 +1,2 @@
+export { default as StorageContract } from './disk';
+export { default as StorageManagerContract } from './manager';
@@ -0,0 +1,5 @@
+import StorageContract from './disk';
+
+export default interface StorageManagerContract {
+  disk(name?: string): StorageContract;
+}
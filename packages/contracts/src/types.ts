@@ -7,18 +7,22 @@ import {
   ProfilerContract,
 } from './core';
 import {
+  ExceptionHandlerContract,
   HttpRequestContract,
   HttpResponseContract,
   HttpRouterContract,
+  SerializerRegistryContract,
   WebSocketRouterContract,
   WSSessionManagerContract,
 } from './http';
+import { StorageManagerContract } from './storage';
 
 import type { Table } from 'drizzle-orm';
 import type { AnyMySqlTable } from 'drizzle-orm/mysql-core';
 import type { MySql2Database } from 'drizzle-orm/mysql2';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import type { AnyPgTable } from 'drizzle-orm/pg-core';
+import type { output, ZodType } from 'zod';
 
 export const CacheClients = {
   memory: 'memory',
@@ -27,6 +31,12 @@ export const CacheClients = {
   redisSession: 'redis_session',
 } as const;
 
+export const StorageDrivers = {
+  local: 'local',
+  memory: 'memory',
+  s3: 's3',
+} as const;
+
 export const DBClients = {
   MySQL: 'mysql',
   PostgreSQL: 'pg',
@@ -36,6 +46,8 @@ export type DBSchema = Record<string, Table>;
 export type MetaData = Record<string, unknown>;
 export type DBClient = (typeof DBClients)[keyof typeof DBClients];
 export type CacheClient = (typeof CacheClients)[keyof typeof CacheClients];
+export type StorageDriver =
+  (typeof StorageDrivers)[keyof typeof StorageDrivers];
 export type DrizzleClient<T extends DBSchema> =
   | MySql2Database<T>
   | NodePgDatabase<T>;
@@ -66,16 +78,55 @@ export interface QueryOption {
 
 export type StoreConfig = Record<string, string>;
 export type StoreDriverCreator = (config: StoreConfig) => CacheStoreContract;
+export type DiskConfig = {
+  driver: StorageDriver;
+  [key: string]: unknown;
+};
+export type StorageContents = string | ArrayBuffer | Uint8Array | Blob;
+export interface StorageFileStat {
+  size: number;
+  type: string;
+  lastModified: Date;
+}
+export interface StoredFileOptions {
+  disk?: string;
+  download?: boolean | string;
+}
 export type CacheEntry = {
   value: unknown;
   expiresAt?: number;
 };
 
-export type HttpMiddleware = (
+// next() resolves once everything downstream has finished, next(err) fails it
+export type HttpMiddleware = {
+  (
+    req: HttpRequestContract,
+    res: HttpResponseContract,
+    next: (err?: unknown) => Promise<void>
+  ): Promise<unknown>;
+  // runs after the response has been handed to the server
+  terminate?(
+    req: HttpRequestContract,
+    res: HttpResponseContract
+  ): void | Promise<void>;
+};
+// handles errors thrown by, or passed to next() in, the middleware chain
+export type HttpErrorMiddleware = (
+  err: unknown,
   req: HttpRequestContract,
   res: HttpResponseContract,
-  next: (err?: unknown) => void
+  next: (err?: unknown) => Promise<void>
 ) => Promise<unknown>;
+// builds a middleware from the parameters of a reference like `throttle:60,1`
+export type HttpMiddlewareFactory = (...params: string[]) => HttpMiddleware;
+// a middleware function, or the name of an alias or group
+export type MiddlewareReference = HttpMiddleware | string;
+export interface MiddlewareOptions {
+  aliases?: Record<string, HttpMiddlewareFactory>;
+  groups?: Record<string, MiddlewareReference[]>;
+  global?: MiddlewareReference[]; // run for every route, after the built-in middleware
+  priority?: string[]; // alias names, in the order they must run
+}
 export interface CookieOptions {
   path?: string;
   domain?: string;
@@ -89,6 +140,7 @@ export interface CookieOptions {
 export enum HttpMethod {
   PUT = 'PUT',
   GET = 'GET',
+  HEAD = 'HEAD',
   POST = 'POST',
   PATCH = 'PATCH',
   DELETE = 'DELETE',
@@ -97,6 +149,7 @@ export enum HttpMethod {
 
 export enum HttpStatusCode {
   OK = 200,
+  MOVED_PERMANENTLY = 301,
   FOUND = 302,
   CREATED = 201,
   ACCEPTED = 202,
@@ -104,9 +157,15 @@ export enum HttpStatusCode {
   NOT_FOUND = 404,
   THROTTLED = 429,
   NO_CONTENT = 204,
+  PARTIAL_CONTENT = 206,
+  NOT_MODIFIED = 304,
   BAD_REQUEST = 400,
+  CONFLICT = 409,
   UNAUTHORIZED = 401,
   METHOD_NOT_ALLOWED = 405,
+  NOT_ACCEPTABLE = 406,
+  PAYLOAD_TOO_LARGE = 413,
+  RANGE_NOT_SATISFIABLE = 416,
   SERVICE_UNAVAILABLE = 503,
   INTERNAL_SERVER_ERROR = 500,
 }
@@ -114,45 +173,208 @@ export enum HttpStatusCode {
 export enum HttpMessage {
   OK = 'OK',
   CREATED = 'Created',
+  CONFLICT = 'Conflict',
   ACCEPTED = 'Accepted',
   FORBIDDEN = 'Forbidden',
   NOT_FOUND = 'Not Found',
   NO_CONTENT = 'No Content',
+  PARTIAL_CONTENT = 'Partial Content',
+  NOT_MODIFIED = 'Not Modified',
   BAD_REQUEST = 'Bad Request',
   UNAUTHORIZED = 'Unauthorized',
   THROTTLED = 'Too Many Requests',
   METHOD_NOT_ALLOWED = 'Method Not Allowed',
+  NOT_ACCEPTABLE = 'Not Acceptable',
+  PAYLOAD_TOO_LARGE = 'Payload Too Large',
+  RANGE_NOT_SATISFIABLE = 'Range Not Satisfiable',
   SERVICE_UNAVAILABLE = 'Service Unavailable',
   INTERNAL_SERVER_ERROR = 'Internal Server Error',
 }
 
+export type RouteUrlParams = Record<string, string | number>;
+export type RouteUrlQuery = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+export interface SignedUrlOptions {
+  query?: RouteUrlQuery;
+  expiresIn?: number; // in seconds
+}
+
+export type ResourceAction = 'list' | 'fetch' | 'create' | 'update' | 'delete';
+export type ResourceController = Partial<
+  Record<ResourceAction, HttpMiddleware>
+>;
+
+export interface ResourceOptions {
+  name?: string;
+  param?: string;
+  only?: ResourceAction[];
+  except?: ResourceAction[];
+  // transformer file the controller responds with, for generated clients
+  transformer?: string;
+  meta?: Partial<Record<ResourceAction, MetaData>>;
+  middleware?: Partial<Record<ResourceAction, MiddlewareReference[]>>;
+}
+
+export interface RequestLimits {
+  maxBodySize?: number;
+  maxFileSize?: number;
+  maxFiles?: number;
+}
+
+/**
+ * Proxies allowed to set X-Forwarded-* headers: all of them (true), a hop
+ * count, or addresses and CIDR ranges, including the `loopback`,
+ * `linklocal` and `uniquelocal` presets.
+ */
+export type TrustProxyOption = boolean | number | string | string[];
+
+export interface RequestConnection {
+  remoteAddress: string;
+  trustProxy: (address: string, hop: number) => boolean;
+}
+
 export interface HttpRouterGroupOptions {
+  name?: string;
   prefix?: string;
-  middleware?: HttpMiddleware[];
+  domain?: string; // host pattern such as `{tenant}.example.com`
+  limits?: RequestLimits;
+  middleware?: MiddlewareReference[];
+  withoutMiddleware?: MiddlewareReference[]; // skip these, including globals
+}
+export interface HttpRouteDomain {
+  host: string;
+  keys: string[];
+  pattern: RegExp;
 }
 export interface HttpRouteParam {
   path: string;
+  name?: string;
   keys: string[];
+  domain?: HttpRouteDomain;
   module: string;
   meta?: MetaData;
   pattern: RegExp;
   modulePath: string;
   method: HttpMethod;
   handler: HttpMiddleware;
-  middleware: HttpMiddleware[];
+  middleware: MiddlewareReference[];
 }
 export interface RouteData {
+  name?: string;
   keys?: string[];
+  domain?: HttpRouteDomain;
   meta?: MetaData;
   module?: string;
   pattern?: RegExp;
   modulePath?: string;
 }
 
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+export interface ServerSentEventOptions {
+  event?: string;
+  retry?: number;
+  id?: string | number;
+}
+
+/**
+ * Writer handed to `res.sse()` handlers. Call it to send an event; it
+ * returns false once the client has disconnected.
+ */
+export interface ServerSentEventSender {
+  (data: unknown, options?: ServerSentEventOptions): boolean;
+  readonly closed: boolean;
+  readonly signal: AbortSignal;
+  comment(text: string): boolean;
+  close(): void;
+}
+
+export interface ServerSentEventStreamOptions {
+  retry?: number;
+  heartbeat?: number;
+}
+
+export interface CacheControlOptions {
+  maxAge?: number;
+  sMaxAge?: number;
+  public?: boolean;
+  private?: boolean;
+  noCache?: boolean;
+  noStore?: boolean;
+  immutable?: boolean;
+  mustRevalidate?: boolean;
+  staleWhileRevalidate?: number;
+}
+
+export interface StaticOptions {
+  enabled?: boolean;
+  roots?: string[]; // directories searched in order, defaults to the public path
+  prefix?: string; // URL prefix the files are served under
+  index?: string[]; // files served for directory requests
+  dotfiles?: boolean; // serve files and directories starting with a dot
+  precompressed?: boolean; // prefer `.br` / `.gz` siblings when accepted
+  cache?: Record<string, CacheControlOptions>; // keyed by extension without the dot, or `*`
+}
+
+export interface SendFileOptions {
+  root?: string;
+  download?: boolean | string;
+}
+
+export interface ResponseSerializer {
+  type: string; // media type sent as Content-Type
+  serialize(data: unknown): string | Uint8Array;
+}
+
+export type NegotiationHandlers = Record<string, () => unknown>;
+
 export interface ValidationError {
   field: string;
   message: string;
 }
+
+export interface RouteSchemas {
+  params?: ZodType;
+  query?: ZodType;
+  body?: ZodType;
+  headers?: ZodType;
+}
+
+export type ValidatedInput<S extends RouteSchemas = RouteSchemas> = {
+  [K in keyof S]: NonNullable<S[K]> extends ZodType
+    ? output<NonNullable<S[K]>>
+    : never;
+};
+export interface RouteResponse {
+  description?: string;
+  contentType?: string;
+  schema?: ZodType;
+}
+
+// route meta `responses`, keyed by status code
+export type RouteResponses = Record<
+  number | string,
+  string | ZodType | RouteResponse
+>;
+
+export interface OpenApiOptions {
+  enabled?: boolean;
+  path?: string; // where the document is served
+  output?: string; // file written by `openapi:generate`
+  info?: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+}
+
 export interface DBConfig {
   host: string;
   user: string;
@@ -211,8 +433,11 @@ export interface AppRegistry<T extends WsSessionData = WsSessionData> {
   profiler: ProfilerContract;
   db: DrizzleClient<DBSchema>;
   cache: CacheManagerContract;
+  storage: StorageManagerContract;
   router: HttpRouterContract;
   request: HttpRequestContract;
+  serializers: SerializerRegistryContract;
+  exceptionHandler: ExceptionHandlerContract;
   wsRouter: WebSocketRouterContract<T>;
   wsSession: WSSessionManagerContract<T>;
 }
@@ -280,6 +505,16 @@ export interface CorsOptions {
   maxAge?: number;
 }
 
+export type CompressionEncoding = 'br' | 'zstd' | 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+  enabled?: boolean;
+  threshold?: number; // in bytes
+  encodings?: CompressionEncoding[]; // in order of preference
+  levels?: Partial<Record<CompressionEncoding, number>>;
+  filter?: (contentType: string) => boolean;
+}
+
 export interface SecureSessionOptions {
   path?: string;
   name?: string;
@@ -7,6 +7,7 @@ import { resolve } from 'path';
 import { FileHelper } from '..';
 import CacheServiceProvider from '../lib/cache';
 import DatabaseServiceProvider from '../lib/db';
+import StorageServiceProvider from '../lib/storage';
 import ModularAppProvider from '../providers/modular';
 import ConfigService from '../services/config';
 import EnvService from '../services/env';
@@ -40,6 +41,7 @@ export default class Application<T extends AppRegistry = AppRegistry>
     this.registerProvider(new ModularAppProvider<T>());
     this.registerProvider(new CacheServiceProvider<T>());
     this.registerProvider(new DatabaseServiceProvider<T>());
+    this.registerProvider(new StorageServiceProvider<T>());
   }
 
   getContainer(): AppContainer<T> {
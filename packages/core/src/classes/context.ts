@@ -1,20 +1,40 @@
 import { AppContainerContract, AppRegistry } from '@blitzbun/contracts';
 import { AsyncLocalStorage } from 'async_hooks';
 
-const storage = new AsyncLocalStorage<AppContainerContract<AppRegistry>>();
+interface ContextStore {
+  container: AppContainerContract<AppRegistry>;
+  requestId?: string;
+}
+
+const storage = new AsyncLocalStorage<ContextStore>();
 
 export const AppContext = {
+  /**
+   * Run `fn` with the container, and the id of the request or job being
+   * handled, available to everything it calls.
+   */
   run<T extends AppRegistry>(
     container: AppContainerContract<T>,
-    fn: () => void | Promise<void>
+    fn: () => void | Promise<void>,
+    options: { requestId?: string } = {}
   ): void | Promise<void> {
-    return storage.run(container as AppContainerContract<AppRegistry>, fn);
+    return storage.run(
+      {
+        container: container as AppContainerContract<AppRegistry>,
+        requestId: options.requestId,
+      },
+      fn
+    );
   },
 
   get<T extends AppRegistry>(): AppContainerContract<T> {
-    const container = storage.getStore();
-    if (!container) throw new Error('No container bound in current context.');
-    return container as AppContainerContract<T>;
+    const store = storage.getStore();
+    if (!store) throw new Error('No container bound in current context.');
+    return store.container as AppContainerContract<T>;
+  },
+
+  requestId(): string | undefined {
+    return storage.getStore()?.requestId;
   },
 };
 
@@ -10,6 +10,13 @@ import Redis, { RedisOptions } from 'ioredis';
 import { FileHelper } from '..';
 import AppKernel from './app';
 
+// set by QueueHelper.dispatch() or withRequestId() when queued from a request
+function requestIdOf(job?: Job): string | undefined {
+  const requestId = (job?.data as { requestId?: unknown } | undefined)
+    ?.requestId;
+  return typeof requestId === 'string' ? requestId : undefined;
+}
+
 export default class WorkerKernel<
   TRegistry extends AppRegistry,
 > extends AppKernel<TRegistry> {
@@ -79,19 +86,27 @@ export default class WorkerKernel<
           }
 
           const scopedContainer = this.app.getContainer().clone();
-          await AppContext.run(scopedContainer, async () => {
-            await handler.handle(job);
-          });
+          await AppContext.run(
+            scopedContainer,
+            async () => {
+              await handler.handle(job);
+            },
+            { requestId: requestIdOf(job) }
+          );
         },
         { connection: redis }
       );
 
       worker.on('completed', (job: Job) => {
-        logger?.info(`✅ Completed job: ${job.name}`);
+        logger?.info(`✅ Completed job: ${job.name}`, {
+          requestId: requestIdOf(job),
+        });
       });
 
       worker.on('failed', (job: Job | undefined, err: Error) => {
-        logger?.error(`❌ Failed job: ${job?.name} - ${err.message}`);
+        logger?.error(`❌ Failed job: ${job?.name} - ${err.message}`, {
+          requestId: requestIdOf(job),
+        });
       });
 
       worker.on('stalled', (jobId: string, prev: string) => {
@@ -0,0 +1,107 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+import {
+  DiskConfig,
+  StorageContents,
+  StorageContract,
+  StorageFileStat,
+} from '@blitzbun/contracts';
+import { mkdir, readdir, stat, unlink } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import { publicUrl, signedUrl } from '../url';
+
+export default class LocalDisk implements StorageContract {
+  private readonly root: string;
+
+  constructor(private readonly config: DiskConfig) {
+    this.root = resolve((config.root as string | undefined) ?? 'storage');
+  }
+
+  /**
+   * Resolve a disk path against the root, refusing anything that would
+   * escape it through `..` segments.
+   */
+  private resolvePath(path: string): string {
+    const fullPath = join(this.root, path);
+    if (fullPath !== this.root && !fullPath.startsWith(this.root + sep)) {
+      throw new Error(`Path is outside of the storage root: ${path}`);
+    }
+    return fullPath;
+  }
+
+  url(path: string): string {
+    return publicUrl(this.config, path);
+  }
+
+  temporaryUrl(path: string, expiresIn: number): string {
+    return signedUrl(this.config, path, expiresIn);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return Bun.file(this.resolvePath(path)).exists();
+  }
+
+  async list(directory: string = ''): Promise<string[]> {
+    const fullPath = this.resolvePath(directory);
+    try {
+      const entries = await readdir(fullPath, {
+        recursive: true,
+        withFileTypes: true,
+      });
+      return entries
+        .filter((entry) => entry.isFile())
+        .map((entry) =>
+          relative(this.root, join(entry.parentPath, entry.name))
+            .split(sep)
+            .join('/')
+        )
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async get(path: string): Promise<Buffer | null> {
+    const file = Bun.file(this.resolvePath(path));
+    if (!(await file.exists())) return null;
+    return Buffer.from(await file.arrayBuffer());
+  }
+
+  async stat(path: string): Promise<StorageFileStat | null> {
+    const fullPath = this.resolvePath(path);
+    try {
+      const stats = await stat(fullPath);
+      if (!stats.isFile()) return null;
+      return {
+        size: stats.size,
+        lastModified: stats.mtime,
+        type: Bun.file(fullPath).type,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async stream(path: string): Promise<ReadableStream<Uint8Array> | null> {
+    const file = Bun.file(this.resolvePath(path));
+    if (!(await file.exists())) return null;
+    return file.stream();
+  }
+
+  async put(path: string, contents: StorageContents): Promise<void> {
+    const fullPath = this.resolvePath(path);
+    await mkdir(dirname(fullPath), { recursive: true });
+    await Bun.write(fullPath, contents);
+  }
+
+  async delete(path: string): Promise<boolean> {
+    try {
+      await unlink(this.resolvePath(path));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+}
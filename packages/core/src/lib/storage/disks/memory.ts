@@ -0,0 +1,83 @@
+import {
+  DiskConfig,
+  StorageContents,
+  StorageContract,
+  StorageFileStat,
+} from '@blitzbun/contracts';
+import { publicUrl, signedUrl } from '../url';
+
+interface MemoryFile {
+  contents: Buffer;
+  lastModified: Date;
+}
+
+/**
+ * Disk that keeps files in a Map, meant for tests and local tooling.
+ */
+export default class MemoryDisk implements StorageContract {
+  private files = new Map<string, MemoryFile>();
+
+  constructor(private readonly config: DiskConfig) {}
+
+  private normalize(path: string): string {
+    return path.split('/').filter(Boolean).join('/');
+  }
+
+  url(path: string): string {
+    return publicUrl(this.config, path);
+  }
+
+  temporaryUrl(path: string, expiresIn: number): string {
+    return signedUrl(this.config, path, expiresIn);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(this.normalize(path));
+  }
+
+  async list(directory: string = ''): Promise<string[]> {
+    const prefix = this.normalize(directory);
+    return [...this.files.keys()]
+      .filter((path) => !prefix || path.startsWith(`${prefix}/`))
+      .sort();
+  }
+
+  async get(path: string): Promise<Buffer | null> {
+    const file = this.files.get(this.normalize(path));
+    return file ? Buffer.from(file.contents) : null;
+  }
+
+  async stat(path: string): Promise<StorageFileStat | null> {
+    const normalized = this.normalize(path);
+    const file = this.files.get(normalized);
+    if (!file) return null;
+    return {
+      size: file.contents.length,
+      lastModified: file.lastModified,
+      type: Bun.file(normalized).type,
+    };
+  }
+
+  async stream(path: string): Promise<ReadableStream<Uint8Array> | null> {
+    const file = this.files.get(this.normalize(path));
+    return file ? new Blob([new Uint8Array(file.contents)]).stream() : null;
+  }
+
+  async put(path: string, contents: StorageContents): Promise<void> {
+    // always copy, so later changes by the caller don't leak into the disk
+    const buffer =
+      typeof contents === 'string'
+        ? Buffer.from(contents)
+        : contents instanceof Blob
+          ? Buffer.from(await contents.arrayBuffer())
+          : Buffer.from(new Uint8Array(contents));
+    this.files.set(this.normalize(path), {
+      contents: buffer,
+      lastModified: new Date(),
+    });
+  }
+
+  async delete(path: string): Promise<boolean> {
+    return this.files.delete(this.normalize(path));
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  DiskConfig,
+  StorageContents,
+  StorageContract,
+  StorageFileStat,
+} from '@blitzbun/contracts';
+import { S3Client, S3Options } from 'bun';
+import { publicUrl } from '../url';
+
+/**
+ * Disk backed by any S3-compatible service (AWS, R2, MinIO, ...) through
+ * Bun's native S3 client.
+ */
+export default class S3Disk implements StorageContract {
+  private readonly client: S3Client;
+
+  constructor(private readonly config: DiskConfig) {
+    this.client = new S3Client(config as S3Options);
+  }
+
+  url(path: string): string {
+    return publicUrl(this.config, path);
+  }
+
+  temporaryUrl(path: string, expiresIn: number): string {
+    return this.client.presign(path, { expiresIn });
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.client.exists(path);
+  }
+
+  async list(directory: string = ''): Promise<string[]> {
+    const prefix = directory.split('/').filter(Boolean).join('/');
+    const paths: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({
+        prefix: prefix ? `${prefix}/` : undefined,
+        continuationToken,
+      });
+      paths.push(...(page.contents ?? []).map((object) => object.key));
+      continuationToken = page.isTruncated
+        ? page.nextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return paths;
+  }
+
+  async get(path: string): Promise<Buffer | null> {
+    const file = this.client.file(path);
+    if (!(await file.exists())) return null;
+    return Buffer.from(await file.arrayBuffer());
+  }
+
+  async stat(path: string): Promise<StorageFileStat | null> {
+    if (!(await this.client.exists(path))) return null;
+    const { size, type, lastModified } = await this.client.stat(path);
+    return { size, type, lastModified };
+  }
+
+  async stream(path: string): Promise<ReadableStream<Uint8Array> | null> {
+    const file = this.client.file(path);
+    if (!(await file.exists())) return null;
+    return file.stream();
+  }
+
+  async put(path: string, contents: StorageContents): Promise<void> {
+    await this.client.write(path, contents);
+  }
+
+  async delete(path: string): Promise<boolean> {
+    if (!(await this.client.exists(path))) return false;
+    await this.client.delete(path);
+    return true;
+  }
+}
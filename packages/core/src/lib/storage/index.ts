@@ -0,0 +1,12 @@
+import { ApplicationContract, AppRegistry } from '@blitzbun/contracts';
+
+import AppProvider from '../../classes/provider';
+import StorageManager from './manager';
+
+export default class StorageServiceProvider<
+  T extends AppRegistry,
+> extends AppProvider<T> {
+  register(app: ApplicationContract<T>): void {
+    app.use('storage', new StorageManager(app.get('config')));
+  }
+}
@@ -0,0 +1,63 @@
+import LocalDisk from './disks/local';
+import MemoryDisk from './disks/memory';
+import S3Disk from './disks/s3';
+
+import {
+  ConfigContract,
+  DiskConfig,
+  StorageContract,
+  StorageDriver,
+  StorageManagerContract,
+} from '@blitzbun/contracts';
+
+export default class StorageManager implements StorageManagerContract {
+  private disks = new Map<string, StorageContract>();
+
+  constructor(private readonly configService: ConfigContract) {}
+
+  disk(name?: string): StorageContract {
+    const diskName =
+      name ?? this.configService.get<string>('storage.default', '');
+
+    if (!diskName) {
+      throw new Error('No storage disk specified or configured as default.');
+    }
+
+    if (!this.disks.has(diskName)) {
+      this.disks.set(diskName, this.createDisk(diskName));
+    }
+
+    return this.disks.get(diskName)!;
+  }
+
+  private assertNever(x: never): never {
+    throw new Error(`Unsupported storage driver: ${x}`);
+  }
+
+  private createDisk(diskName: string): StorageContract {
+    const diskConfig = this.configService.get(`storage.disks.${diskName}`) as
+      | DiskConfig
+      | undefined;
+    if (!diskConfig) {
+      throw new Error(`Storage disk configuration '${diskName}' not found`);
+    }
+
+    // the app key signs temporary URLs unless the disk brings its own
+    const config: DiskConfig = {
+      key: this.configService.get<string>('app.key', ''),
+      ...diskConfig,
+    };
+
+    const driver: StorageDriver = config.driver;
+    switch (driver) {
+      case 'local':
+        return new LocalDisk(config);
+      case 'memory':
+        return new MemoryDisk(config);
+      case 's3':
+        return new S3Disk(config);
+      default:
+        return this.assertNever(driver);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { DiskConfig } from '@blitzbun/contracts';
+import { urlSignature } from '../../utils/crypto';
+
+/**
+ * Public URL of a file, built from the `url` option of the disk.
+ */
+export function publicUrl(config: DiskConfig, path: string): string {
+  const base = config.url as string | undefined;
+  if (!base) {
+    throw new Error('Storage disk has no "url" configured');
+  }
+
+  const segments = path.split('/').filter(Boolean).map(encodeURIComponent);
+  return `${base.replace(/\/+$/, '')}/${segments.join('/')}`;
+}
+
+/**
+ * Temporary URL signed with the application key, in the same format as the
+ * router's signed URLs so it can be checked by the `signed-url` middleware.
+ */
+export function signedUrl(
+  config: DiskConfig,
+  path: string,
+  expiresIn: number
+): string {
+  const key = config.key as string | undefined;
+  if (!key) {
+    throw new Error('Temporary URLs require an "app.key" config value');
+  }
+
+  const href = publicUrl(config, path);
+  const url = new URL(href, 'http://localhost');
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', urlSignature(url, key));
+
+  return /^https?:\/\//i.test(href) ? url.href : `${url.pathname}${url.search}`;
+}
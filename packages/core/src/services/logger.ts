@@ -1,5 +1,6 @@
 import { LogData, LoggerContract } from '@blitzbun/contracts';
 import pino, { Logger } from 'pino';
+import AppContext from '../classes/context';
 
 export default class LoggerService implements LoggerContract {
   private logger: Logger;
@@ -33,6 +34,16 @@ export default class LoggerService implements LoggerContract {
     });
   }
 
+  // lines written while handling a request or job carry its id
+  private withRequestId(data?: LogData): LogData {
+    const requestId = AppContext.requestId();
+    return {
+      context: this.context,
+      ...(requestId ? { requestId } : {}),
+      ...data,
+    };
+  }
+
   setLevel(level: string): void {
     this.level = level;
     this.logger.level = level;
@@ -43,18 +54,18 @@ export default class LoggerService implements LoggerContract {
   }
 
   info(message: string, data?: LogData): void {
-    this.logger.info({ context: this.context, ...data }, message);
+    this.logger.info(this.withRequestId(data), message);
   }
 
   warn(message: string, data?: LogData): void {
-    this.logger.warn({ context: this.context, ...data }, message);
+    this.logger.warn(this.withRequestId(data), message);
   }
 
   error(message: string, data?: LogData): void {
-    this.logger.error({ context: this.context, ...data }, message);
+    this.logger.error(this.withRequestId(data), message);
   }
 
   debug(message: string, data?: LogData): void {
-    this.logger.debug({ context: this.context, ...data }, message);
+    this.logger.debug(this.withRequestId(data), message);
   }
 }
@@ -27,6 +27,33 @@ export const getRandomHash = (
   return crypto.randomBytes(size).toString(format);
 };
 
+export const hmac = (
+  value: string,
+  key: string,
+  format: crypto.BinaryToTextEncoding = 'base64url'
+): string => {
+  return crypto.createHmac('sha256', key).update(value).digest(format);
+};
+
+export const safeCompare = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * HMAC of a URL's path and sorted query string, ignoring any existing
+ * `signature` parameter, so that reordering the query doesn't matter.
+ */
+export const urlSignature = (url: URL, key: string): string => {
+  const search = new URLSearchParams(url.search);
+  search.delete('signature');
+  search.sort();
+
+  const qs = search.toString();
+  return hmac(qs ? `${url.pathname}?${qs}` : url.pathname, key);
+};
+
 export const base64 = (str: ArrayBuffer | SharedArrayBuffer): string => {
   return Buffer.from(str as ArrayBuffer).toString('base64');
 };
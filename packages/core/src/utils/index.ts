@@ -2,4 +2,5 @@ export * as CommonHelper from './common';
 export * as CryptoHelper from './crypto';
 export * as DateHelper from './date';
 export * as FileHelper from './file';
+export * as QueueHelper from './queue';
 export * as SiteMapHelper from './sitemap';
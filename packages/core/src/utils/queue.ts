@@ -0,0 +1,46 @@
+import { CacheClients } from '@blitzbun/contracts';
+import { Job, JobsOptions, Queue } from 'bullmq';
+import { RedisOptions } from 'ioredis';
+import AppContext from '../classes/context';
+
+// one connection per queue name, shared by every dispatch
+const queues = new Map<string, Queue>();
+
+/**
+ * Job data tagged with the id of the request it is queued from. The worker
+ * kernel runs the job under that id, so its log lines can be matched with
+ * the request's. Outside of a request the data is returned as is.
+ */
+export function withRequestId<T extends object>(
+  data: T
+): T & { requestId?: string } {
+  const requestId = AppContext.requestId();
+  return requestId ? { requestId, ...data } : data;
+}
+
+/**
+ * Queue a job by its `queue-name:job-name`, on the `redis_queue` cache
+ * store connection. The data is tagged with the current request id, as
+ * withRequestId() does.
+ */
+export async function dispatch<T extends object>(
+  job: string,
+  data: T,
+  options?: JobsOptions
+): Promise<Job> {
+  const [queueName, jobName] = job.split(':');
+  if (!queueName || !jobName) {
+    throw new Error(`Invalid job name format: ${job}`);
+  }
+
+  let queue = queues.get(queueName);
+  if (!queue) {
+    const config = AppContext.get()
+      .resolve('config')
+      .get(`cache.stores.${CacheClients.redisQueue}`) as RedisOptions;
+    queue = new Queue(queueName, { connection: config });
+    queues.set(queueName, queue);
+  }
+
+  return queue.add(jobName, withRequestId(data), options);
+}
@@ -3,9 +3,20 @@ import { EnvContract } from '@blitzbun/contracts';
 export default (envService: EnvContract) => {
   return {
     isDevEnv: envService.get('APP_ENV') === 'development',
+    key: envService.get('APP_KEY'),
     jwtToken: envService.get('JWT_SECRET'),
     port: envService.get('APP_PORT'),
     jwtLogin: true,
+    problemDetails: false,
+    // 'true', a hop count or a list of proxy addresses / CIDR ranges
+    trustProxy: envService.get('TRUST_PROXY', 'false'),
+    // milliseconds before a request is answered with 503, 0 to disable
+    timeout: parseInt(envService.get('APP_REQUEST_TIMEOUT', '30000'), 10),
+    limits: {
+      maxBodySize: 1024 * 1024 * 10, // 10MB
+      maxFileSize: 1024 * 1024 * 5, // 5MB per file
+      maxFiles: 10,
+    },
     log: {
       level: 'info',
     },
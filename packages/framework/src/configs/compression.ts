@@ -0,0 +1,16 @@
+import {
+  CompressionEncoding,
+  CompressionOptions,
+  EnvContract,
+} from '@blitzbun/contracts';
+
+export default (envService: EnvContract): CompressionOptions => {
+  return {
+    enabled: envService.get('COMPRESSION_ENABLED', 'true') === 'true',
+    threshold: parseInt(envService.get('COMPRESSION_THRESHOLD', '1024'), 10),
+    encodings: envService
+      .get('COMPRESSION_ENCODINGS', 'br,zstd,gzip,deflate')
+      .split(',')
+      .filter(Boolean) as CompressionEncoding[],
+  };
+};
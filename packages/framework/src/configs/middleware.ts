@@ -0,0 +1,22 @@
+import { MiddlewareOptions } from '@blitzbun/contracts';
+import auth from '@blitzbun/http/middlewares/auth';
+import session from '@blitzbun/http/middlewares/session';
+import createThrottleMiddleware from '@blitzbun/http/middlewares/throttle';
+
+export default (): MiddlewareOptions => {
+  return {
+    aliases: {
+      auth: () => auth,
+      session: () => session,
+      // throttle:<requests>,<minutes>
+      throttle: (requests = '60', minutes = '1') =>
+        createThrottleMiddleware(Number(requests), Number(minutes)),
+    },
+    groups: {
+      web: ['session'],
+      api: ['throttle:60,1'],
+    },
+    global: [],
+    priority: ['session', 'auth', 'throttle'],
+  };
+};
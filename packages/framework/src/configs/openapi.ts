@@ -0,0 +1,14 @@
+import { EnvContract, OpenApiOptions } from '@blitzbun/contracts';
+
+export default (envService: EnvContract): OpenApiOptions => {
+  return {
+    enabled: envService.get<string>('OPENAPI_ENABLED', 'false') === 'true',
+    path: envService.get('OPENAPI_PATH', '/openapi.json'),
+    output: envService.get('OPENAPI_OUTPUT', 'openapi.json'),
+    info: {
+      title: envService.get('OPENAPI_TITLE', 'BlitzBun API'),
+      version: envService.get('OPENAPI_VERSION', '1.0.0'),
+    },
+    servers: [],
+  };
+};
@@ -0,0 +1,19 @@
+import { EnvContract, StaticOptions } from '@blitzbun/contracts';
+
+export default (envService: EnvContract): StaticOptions => {
+  return {
+    enabled: envService.get('STATIC_ENABLED', 'true') === 'true',
+    // empty roots serve the application's public directory
+    roots: [],
+    prefix: envService.get('STATIC_PREFIX', '/'),
+    index: ['index.html'],
+    dotfiles: false,
+    precompressed: true,
+    cache: {
+      css: { public: true, maxAge: 86400 },
+      js: { public: true, maxAge: 86400 },
+      woff2: { public: true, maxAge: 31536000, immutable: true },
+      '*': { public: true, maxAge: 3600 },
+    },
+  };
+};
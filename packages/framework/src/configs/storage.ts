@@ -0,0 +1,25 @@
+import { EnvContract } from '@blitzbun/contracts';
+
+export default (envService: EnvContract) => ({
+  default: envService.get('STORAGE_DISK', 'local'),
+  disks: {
+    local: {
+      driver: 'local',
+      root: envService.get('STORAGE_ROOT', 'storage/app'),
+      url: envService.get('STORAGE_URL', '/storage'),
+    },
+    memory: {
+      driver: 'memory',
+      url: '/storage',
+    },
+    s3: {
+      driver: 's3',
+      bucket: envService.get('S3_BUCKET'),
+      region: envService.get('S3_REGION'),
+      endpoint: envService.get('S3_ENDPOINT'),
+      url: envService.get('S3_URL'),
+      accessKeyId: envService.get('S3_ACCESS_KEY_ID'),
+      secretAccessKey: envService.get('S3_SECRET_ACCESS_KEY'),
+    },
+  },
+});
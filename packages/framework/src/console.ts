@@ -1,6 +1,10 @@
 import { Application, ConsoleKernel } from '@blitzbun/core';
+import { HttpRouter } from '@blitzbun/http';
 
-(async () =>
-  await new ConsoleKernel(new Application(__dirname))
-    .handle()
-    .catch((e) => console.log(e)))();
+(async () => {
+  const application = new Application(__dirname);
+  // modules only register their routes when a router is bound
+  application.use('router', new HttpRouter());
+
+  await new ConsoleKernel(application).handle().catch((e) => console.log(e));
+})();
@@ -0,0 +1 @@
+export { default } from '@blitzbun/http/commands/client-generate';
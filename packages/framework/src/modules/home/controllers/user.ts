@@ -1,4 +1,5 @@
 import { HttpRequestContract, HttpResponseContract } from '@blitzbun/contracts';
+import { NotFoundException, ValidationException } from '@blitzbun/http';
 
 import UserRepository from '@modules/home/repository/user';
 import UsersTransformer from '@modules/home/transformers/user';
@@ -17,20 +18,14 @@ export default class UserController {
     const userUuid = req.query<string>('uuid') as string;
 
     if (await validator.fails()) {
-      return res.status(400).json({
-        success: false,
-        errors: validator.getErrors(),
-      });
+      throw new ValidationException(validator.getErrors());
     }
 
     const userTransformer = new UsersTransformer(req);
     const user = await this.userRepository.getByUuid(userUuid);
 
     if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found',
-      });
+      throw new NotFoundException('User not found');
     }
 
     return res.status(200).json({
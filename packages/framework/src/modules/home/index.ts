@@ -17,11 +17,9 @@ export default class HomeModuleProvider<
     router.setModule('home', app.getModulePath('home'));
 
     // home route
-    router.get('/', user.home);
+    router.get('/', user.home, { name: 'home' });
 
     // user routes
-    router.group({ prefix: 'user' }, () => {
-      router.get('/:uuid', user.fetch);
-    });
+    router.resource('user', user, { only: ['fetch'], param: 'uuid' });
   }
 }
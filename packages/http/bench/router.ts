@@ -0,0 +1,49 @@
+/**
+ * Route lookup benchmark.
+ *
+ * Registers an increasing number of routes and measures the average time
+ * `HttpRouter.match()` takes to resolve the last registered route, which is
+ * the worst case for a linear scan.
+ *
+ *   bun run bench/router.ts
+ */
+import { HttpMethod, HttpMiddleware } from '@blitzbun/contracts';
+import HttpRouter from '../src/classes/router';
+
+const ITERATIONS = 100_000;
+const handler: HttpMiddleware = async () => undefined;
+
+function build(size: number): HttpRouter {
+  const router = new HttpRouter();
+  for (let i = 0; i < size; i++) {
+    router.group({ prefix: `/module-${i}` }, () => {
+      router.get('/items', handler);
+      router.get('/items/:uuid', handler);
+      router.post('/items/:uuid/comments/:id?', handler);
+    });
+  }
+  return router;
+}
+
+function measure(size: number): void {
+  const router = build(size);
+  const path = `/module-${size - 1}/items/0b7f0a2c`;
+
+  if (!router.match(HttpMethod.GET, path)) {
+    throw new Error(`Benchmark route not matched: ${path}`);
+  }
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < ITERATIONS; i++) {
+    router.match(HttpMethod.GET, path);
+  }
+  const elapsed = Number(process.hrtime.bigint() - start) / ITERATIONS;
+
+  console.log(
+    `${String(size * 3).padStart(6)} routes: ${elapsed.toFixed(0).padStart(6)} ns/lookup`
+  );
+}
+
+for (const size of [10, 100, 400, 1000, 4000]) {
+  measure(size);
+}
@@ -1,11 +1,93 @@
-import { HttpRouteParam } from '@blitzbun/contracts';
+import {
+  HttpMethod,
+  HttpRouteParam,
+  HttpRouterContract,
+} from '@blitzbun/contracts';
 import Route from './route';
+import HttpRouteTree from './tree';
+
+interface DomainRoutes {
+  exact: boolean;
+  pattern?: RegExp;
+  trees: Map<HttpMethod, HttpRouteTree>;
+}
 
 export default class HttpRouteCollection {
   private routes: Route[] = [];
+  private named = new Map<string, Route>();
+  // keyed by host pattern, '' holds the routes that match any host
+  private domains = new Map<string, DomainRoutes>();
+
+  constructor(private resolve?: HttpRouterContract['resolveMiddleware']) {}
 
   add(route: HttpRouteParam): void {
-    this.routes.push(new Route(route));
+    const instance = new Route(route, this.resolve);
+    this.routes.push(instance);
+
+    if (route.name) {
+      if (this.named.has(route.name)) {
+        throw new Error(`Route name already registered: ${route.name}`);
+      }
+      this.named.set(route.name, instance);
+    }
+
+    const host = route.domain?.host ?? '';
+    let domain = this.domains.get(host);
+    if (!domain) {
+      domain = {
+        exact: route.domain?.keys.length === 0,
+        pattern: route.domain?.pattern,
+        trees: new Map(),
+      };
+      this.domains.set(host, domain);
+    }
+
+    let tree = domain.trees.get(route.method);
+    if (!tree) {
+      tree = new HttpRouteTree();
+      domain.trees.set(route.method, tree);
+    }
+    tree.insert(instance);
+  }
+
+  get(name: string): Route | undefined {
+    return this.named.get(name);
+  }
+
+  /**
+   * Route sets to search for a host: the matching domains, exact hosts
+   * before patterns and otherwise in registration order, then the routes
+   * that match any host.
+   */
+  private candidates(host?: string): DomainRoutes[] {
+    const exact: DomainRoutes[] = [];
+    const patterns: DomainRoutes[] = [];
+    for (const domain of this.domains.values()) {
+      if (!domain.pattern || host === undefined) continue;
+      if (!domain.pattern.test(host)) continue;
+      (domain.exact ? exact : patterns).push(domain);
+    }
+
+    const any = this.domains.get('');
+    return any ? [...exact, ...patterns, any] : [...exact, ...patterns];
+  }
+
+  match(method: HttpMethod, path: string, host?: string): Route | undefined {
+    for (const domain of this.candidates(host)) {
+      const route = domain.trees.get(method)?.lookup(path);
+      if (route) return route;
+    }
+    return undefined;
+  }
+
+  methods(path: string, host?: string): HttpMethod[] {
+    const methods = new Set<HttpMethod>();
+    for (const domain of this.candidates(host)) {
+      for (const [method, tree] of domain.trees) {
+        if (tree.lookup(path)) methods.add(method);
+      }
+    }
+    return [...methods];
   }
 
   all(): Route[] {
@@ -1,23 +1,50 @@
-import { HttpMiddleware, HttpRouterGroupOptions } from '@blitzbun/contracts';
+import {
+  HttpRouterGroupOptions,
+  MiddlewareReference,
+  RequestLimits,
+} from '@blitzbun/contracts';
 
 export default class HttpRouterContext {
+  name = '';
   prefix = '';
-  middleware: HttpMiddleware[] = [];
+  domain = '';
+  limits: RequestLimits = {};
+  middleware: MiddlewareReference[] = [];
+  withoutMiddleware: MiddlewareReference[] = [];
 
   constructor(parent?: HttpRouterContext) {
     if (parent) {
+      this.name = parent.name;
       this.prefix = parent.prefix;
+      this.domain = parent.domain;
+      this.limits = { ...parent.limits };
       this.middleware = [...parent.middleware];
+      this.withoutMiddleware = [...parent.withoutMiddleware];
     }
   }
 
   apply(options: HttpRouterGroupOptions): this {
+    if (options.name) {
+      this.name += options.name;
+    }
     if (options.prefix) {
       this.prefix += options.prefix;
     }
+    // an inner domain replaces the outer one rather than nesting under it
+    if (options.domain) {
+      this.domain = options.domain;
+    }
+    if (options.limits) {
+      this.limits = { ...this.limits, ...options.limits };
+    }
     if (options.middleware) {
       this.middleware = this.middleware.concat(options.middleware);
     }
+    if (options.withoutMiddleware) {
+      this.withoutMiddleware = this.withoutMiddleware.concat(
+        options.withoutMiddleware
+      );
+    }
     return this;
   }
 }
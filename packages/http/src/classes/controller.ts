@@ -1,8 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { HttpRequestContract, HttpResponseContract } from '@blitzbun/contracts';
+import { NotFoundException, ValidationException } from '../exceptions';
 
 export default abstract class BaseController {
   protected validator: string;
+  // formats besides JSON that `list` can export, e.g. ['csv']
+  protected exportFormats: string[] = [];
   protected abstract getRepository(): any;
   protected abstract getTransformer(req: HttpRequestContract): any;
 
@@ -12,114 +15,77 @@ export default abstract class BaseController {
 
   protected validate = async (
     key: string,
-    req: HttpRequestContract,
-    res: HttpResponseContract
-  ): Promise<boolean> => {
-    if (!key) return true;
+    req: HttpRequestContract
+  ): Promise<void> => {
+    if (!key) return;
     const validator = req.getValidator(key);
     if (await validator.fails()) {
-      res.status(400).json({ success: false, errors: validator.getErrors() });
-      return false;
+      throw new ValidationException(validator.getErrors());
     }
-    return true;
   };
 
   list = async (req: HttpRequestContract, res: HttpResponseContract) => {
-    try {
-      const results = await this.getRepository().paginate();
-      return res.status(200).json({
-        meta: results.meta,
-        data: await this.getTransformer(req).collection(results.data),
-      });
-    } catch (e) {
-      console.error(e);
-      return res.status(400).json({
-        success: false,
-        message: 'Something went wrong',
-      });
-    }
+    const results = await this.getRepository().paginate();
+    const data = await this.getTransformer(req).collection(results.data);
+
+    // exports get the transformed rows without the pagination envelope;
+    // clients accepting none of the formats still get JSON
+    const json = () => res.json({ meta: results.meta, data });
+    return res.status(200).negotiate({
+      json,
+      default: json,
+      ...Object.fromEntries(
+        this.exportFormats.map((format) => [
+          format,
+          () => res.send(data, [format]),
+        ])
+      ),
+    });
   };
 
   fetch = async (req: HttpRequestContract, res: HttpResponseContract) => {
-    try {
-      if (!(await this.validate(`${this.validator}.fetch`, req, res))) return;
-      const repo = this.getRepository();
+    await this.validate(`${this.validator}.fetch`, req);
+    const repo = this.getRepository();
 
-      const pk = repo.getPk();
-      const pkValue = req.param<string>(pk);
-      const model = await repo.findBy(pk, pkValue);
+    const pk = repo.getPk();
+    const pkValue = req.param<string>(pk);
+    const model = await repo.findBy(pk, pkValue);
 
-      if (!model) {
-        return res.status(404).json({
-          success: false,
-          message: 'Invalid entity',
-        });
-      }
-
-      return res.status(200).json({
-        success: true,
-        data: await this.getTransformer(req).transform(model),
-      });
-    } catch (e) {
-      console.error(e);
-      return res.status(400).json({
-        success: false,
-        message: 'Something went wrong',
-      });
+    if (!model) {
+      throw new NotFoundException('Invalid entity');
     }
+
+    return res.status(200).json({
+      success: true,
+      data: await this.getTransformer(req).transform(model),
+    });
   };
 
   create = async (req: HttpRequestContract, res: HttpResponseContract) => {
-    try {
-      if (!(await this.validate(`${this.validator}.create`, req, res))) return;
-      return res.status(200).json({
-        success: true,
-        data: await this.getTransformer(req).transform(
-          await this.getRepository().create()
-        ),
-      });
-    } catch (e) {
-      console.error(e);
-      return res.status(400).json({
-        success: false,
-        message: 'Something went wrong',
-      });
-    }
+    await this.validate(`${this.validator}.create`, req);
+    return res.status(200).json({
+      success: true,
+      data: await this.getTransformer(req).transform(
+        await this.getRepository().create()
+      ),
+    });
   };
 
   update = async (req: HttpRequestContract, res: HttpResponseContract) => {
-    try {
-      if (!(await this.validate(`${this.validator}.update`, req, res))) return;
+    await this.validate(`${this.validator}.update`, req);
 
-      await this.getRepository().update();
-      return res.status(204).json({
-        success: true,
-      });
-    } catch (e) {
-      console.error(e);
-      return res.status(400).json({
-        success: false,
-        message: 'Something went wrong',
-      });
-    }
+    await this.getRepository().update();
+    return res.status(200).json({ success: true });
   };
 
   delete = async (req: HttpRequestContract, res: HttpResponseContract) => {
-    try {
-      if (!(await this.validate(`${this.validator}.fetch`, req, res))) return;
+    await this.validate(`${this.validator}.fetch`, req);
 
-      const repo = this.getRepository();
-      const pk = repo.getPk();
-      const pkValue = req.param<string>(pk);
-      await repo.deleteBy(pk, pkValue);
+    const repo = this.getRepository();
+    const pk = repo.getPk();
+    const pkValue = req.param<string>(pk);
+    await repo.deleteBy(pk, pkValue);
 
-      return res.status(200).json({ success: true });
-    } catch (e) {
-      console.error(e);
-      return res.status(400).json({
-        success: false,
-        message: 'Something went wrong',
-      });
-    }
+    return res.status(200).json({ success: true });
   };
 }
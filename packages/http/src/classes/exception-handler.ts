@@ -0,0 +1,98 @@
+import {
+  ExceptionHandlerContract,
+  HttpMessage,
+  HttpRequestContract,
+  HttpResponseContract,
+  HttpStatusCode,
+  LoggerContract,
+} from '@blitzbun/contracts';
+import { HttpException, ValidationException } from '../exceptions';
+import errorResponse from '../utils/error-response';
+
+export interface HttpExceptionHandlerOptions {
+  debug?: boolean;
+  problemDetails?: boolean;
+}
+
+export default class HttpExceptionHandler implements ExceptionHandlerContract {
+  constructor(
+    protected readonly logger: LoggerContract,
+    protected readonly options: HttpExceptionHandlerOptions = {}
+  ) {}
+
+  report(error: unknown, req: HttpRequestContract): void {
+    const data = {
+      url: req.getUrl(),
+      requestId: req.id,
+      method: req.method,
+      error: error instanceof Error ? error.message : String(error),
+    };
+
+    if (error instanceof HttpException && error.status < 500) {
+      this.logger.warn('HTTP exception', { ...data, status: error.status });
+      return;
+    }
+
+    this.logger.error('Unhandled exception', {
+      ...data,
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+
+  render(
+    error: unknown,
+    req: HttpRequestContract,
+    res: HttpResponseContract
+  ): HttpResponseContract {
+    const isHttp = error instanceof HttpException;
+    const status = isHttp ? error.status : HttpStatusCode.INTERNAL_SERVER_ERROR;
+    const message = isHttp ? error.message : HttpMessage.INTERNAL_SERVER_ERROR;
+    const extensions = this.getExtensions(error);
+
+    if (isHttp) {
+      for (const [name, value] of Object.entries(error.headers)) {
+        res.header(name, value);
+      }
+    }
+
+    if (!this.wantsJson(req)) {
+      return res.status(status).html(this.toHtml(status, message, extensions));
+    }
+
+    return errorResponse(req, res, status, message, {
+      extensions,
+      problem: this.options.problemDetails,
+    });
+  }
+
+  protected wantsJson(req: HttpRequestContract): boolean {
+    return req.isJson() || (req.getHeader('accept') ?? '').includes('+json');
+  }
+
+  protected getExtensions(error: unknown): Record<string, unknown> {
+    const extensions: Record<string, unknown> = {};
+
+    if (error instanceof ValidationException) {
+      extensions.errors = error.errors;
+    }
+
+    if (this.options.debug && error instanceof Error) {
+      extensions.stack = error.stack?.split('\n').map((line) => line.trim());
+    }
+
+    return extensions;
+  }
+
+  protected toHtml(
+    status: HttpStatusCode,
+    message: string,
+    extensions: Record<string, unknown>
+  ): string {
+    const title = Bun.escapeHTML(`${status} ${message}`);
+    const stack = Array.isArray(extensions.stack)
+      ? `<pre>${Bun.escapeHTML(extensions.stack.join('\n'))}</pre>`
+      : '';
+
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title></head><body><h1>${title}</h1>${stack}</body></html>`;
+  }
+}
@@ -1,12 +1,17 @@
 export { default as HttpRouteCollection } from './collection';
 export { default as HttpRouterContext } from './context';
 export { default as BaseController } from './controller';
+export { default as HttpExceptionHandler } from './exception-handler';
 export { default as HttpKernel } from './kernel';
+export { default as HttpMiddlewareRegistry } from './middleware-registry';
 export { default as HttpRequest } from './request';
 export { default as HttpResponse } from './response';
 export { default as HttpRoute } from './route';
 export { default as HttpRouter } from './router';
+export { default as SerializerRegistry } from './serializers';
 export { default as HttpServer } from './server';
+export { default as HttpRouteTree } from './tree';
+export { default as UploadedFile } from './uploaded-file';
 export { default as Validator } from './validator';
 export { default as WebSocketRouter } from './wsRouter';
 export { default as WSSessionManager } from './wsSession';
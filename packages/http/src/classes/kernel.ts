@@ -1,21 +1,51 @@
-import { AppRegistry } from '@blitzbun/contracts';
+import {
+  AppRegistry,
+  CompressionOptions,
+  MiddlewareOptions,
+  OpenApiOptions,
+  StaticOptions,
+} from '@blitzbun/contracts';
 
 import { AppKernel } from '@blitzbun/core';
-import { HttpRouter, HttpServer, WebSocketRouter, WSSessionManager } from '.';
+import {
+  HttpRouter,
+  HttpServer,
+  SerializerRegistry,
+  WebSocketRouter,
+  WSSessionManager,
+} from '.';
+import createCompressionMiddleware from '../middlewares/compression';
 import createSecurityMiddleware from '../middlewares/security';
+import createStaticMiddleware from '../middlewares/static';
+import { createOpenApiHandler } from '../utils/openapi';
 
 export default class HttpKernel<
   T extends AppRegistry = AppRegistry,
 > extends AppKernel<T> {
   async handle(): Promise<void> {
-    this.app.use('router', new HttpRouter());
+    const router = new HttpRouter();
+    this.app.use('router', router);
     this.app.use('wsRouter', new WebSocketRouter());
     this.app.use('wsSession', new WSSessionManager());
+    this.app.use('serializers', new SerializerRegistry());
 
     await this.app.boot();
 
-    const server = new HttpServer(this.app);
+    // routes resolve middleware names on first use, so modules can refer
+    // to names from the config while registering their routes during boot
     const configService = this.app.get('config');
+    const middleware = configService.get('middleware', {}) as MiddlewareOptions;
+    for (const [name, factory] of Object.entries(middleware.aliases ?? {})) {
+      router.aliasMiddleware(name, factory);
+    }
+    for (const [name, group] of Object.entries(middleware.groups ?? {})) {
+      router.middlewareGroup(name, group);
+    }
+    if (middleware.priority) {
+      router.middlewarePriority(middleware.priority);
+    }
+
+    const server = new HttpServer(this.app);
 
     // Add security middleware globally
     server.use(
@@ -25,6 +55,39 @@ export default class HttpKernel<
       )
     );
 
+    const compression = configService.get(
+      'compression',
+      {}
+    ) as CompressionOptions;
+    if (compression.enabled) {
+      server.use(createCompressionMiddleware(compression));
+    }
+
+    const statics = configService.get('static', {}) as StaticOptions;
+    if (statics.enabled) {
+      server.useBeforeRouting(
+        createStaticMiddleware({
+          ...statics,
+          roots: statics.roots?.length
+            ? statics.roots
+            : [this.app.getPublicPath()],
+        })
+      );
+    }
+
+    for (const reference of middleware.global ?? []) {
+      server.use(reference);
+    }
+
+    const openapi = configService.get('openapi', {}) as OpenApiOptions;
+    if (openapi.enabled) {
+      router.get(
+        openapi.path ?? '/openapi.json',
+        createOpenApiHandler(router, openapi),
+        { openapi: false }
+      );
+    }
+
     await server.start();
 
     server.enableGracefulShutdown({
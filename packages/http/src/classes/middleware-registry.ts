@@ -0,0 +1,125 @@
+/* eslint-disable security/detect-object-injection */
+import {
+  HttpMiddleware,
+  HttpMiddlewareFactory,
+  MiddlewareReference,
+} from '@blitzbun/contracts';
+
+// `throttle:60,1` is the alias `throttle` with the parameters 60 and 1
+function aliasName(reference: string): string {
+  const colon = reference.indexOf(':');
+  return colon === -1 ? reference : reference.substring(0, colon);
+}
+
+/**
+ * Named middleware for routes and the server to reference by string.
+ * Aliases are factories receiving the parameters after the colon, built
+ * once per distinct reference; groups bundle references under one name.
+ */
+export default class HttpMiddlewareRegistry {
+  private aliases = new Map<string, HttpMiddlewareFactory>();
+  private groups = new Map<string, MiddlewareReference[]>();
+  private instances = new Map<string, HttpMiddleware>();
+  private order: string[] = [];
+
+  alias(name: string, factory: HttpMiddlewareFactory): this {
+    this.aliases.set(name, factory);
+    // references built from a previous factory are stale
+    for (const reference of this.instances.keys()) {
+      if (aliasName(reference) === name) this.instances.delete(reference);
+    }
+    return this;
+  }
+
+  group(name: string, middleware: MiddlewareReference[]): this {
+    this.groups.set(name, middleware);
+    return this;
+  }
+
+  priority(names: string[]): this {
+    this.order = names;
+    return this;
+  }
+
+  /**
+   * Middleware functions for the given references, in the order they run.
+   * Groups are expanded, each middleware runs once, and excluded ones are
+   * dropped: by function, or by alias name whatever its parameters.
+   * Aliases listed in the priority run in that order relative to each
+   * other, while everything else keeps its position.
+   */
+  resolve(
+    middleware: MiddlewareReference[],
+    exclude: MiddlewareReference[] = []
+  ): HttpMiddleware[] {
+    const excluded = this.expand(exclude);
+    const names = excluded.flatMap((ref) =>
+      typeof ref === 'string' ? [aliasName(ref)] : []
+    );
+    const functions = excluded.filter((ref) => typeof ref === 'function');
+
+    const references = this.expand(middleware).filter(
+      (ref) => typeof ref === 'function' || !names.includes(aliasName(ref))
+    );
+    const resolved = this.sort(references)
+      .map((ref) => (typeof ref === 'string' ? this.instance(ref) : ref))
+      .filter((fn) => !functions.includes(fn));
+
+    return resolved.filter((fn, index) => resolved.indexOf(fn) === index);
+  }
+
+  // flatten groups into functions and alias references
+  private expand(
+    middleware: MiddlewareReference[],
+    trail: string[] = []
+  ): MiddlewareReference[] {
+    return middleware.flatMap((ref) => {
+      if (typeof ref === 'function') return [ref];
+
+      const group = this.groups.get(ref);
+      if (group) {
+        if (trail.includes(ref)) {
+          throw new Error(
+            `Middleware group "${ref}" includes itself: ${[...trail, ref].join(' > ')}`
+          );
+        }
+        return this.expand(group, [...trail, ref]);
+      }
+
+      if (!this.aliases.has(aliasName(ref))) {
+        throw new Error(`Middleware not defined: ${ref}`);
+      }
+      return [ref];
+    });
+  }
+
+  private sort(references: MiddlewareReference[]): MiddlewareReference[] {
+    const rank = (ref: MiddlewareReference) =>
+      typeof ref === 'string' ? this.order.indexOf(aliasName(ref)) : -1;
+
+    const slots = references
+      .map((ref, index) => (rank(ref) === -1 ? -1 : index))
+      .filter((index) => index !== -1);
+    const ranked = slots
+      .map((index) => references[index])
+      .sort((a, b) => rank(a) - rank(b));
+
+    const sorted = [...references];
+    slots.forEach((slot, i) => (sorted[slot] = ranked[i]));
+    return sorted;
+  }
+
+  private instance(reference: string): HttpMiddleware {
+    let middleware = this.instances.get(reference);
+    if (!middleware) {
+      const name = aliasName(reference);
+      const params =
+        name === reference
+          ? []
+          : reference.substring(name.length + 1).split(',');
+      middleware = this.aliases.get(name)!(...params); // checked in expand()
+      this.instances.set(reference, middleware);
+    }
+    return middleware;
+  }
+}
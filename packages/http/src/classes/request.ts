@@ -1,19 +1,32 @@
 /* eslint-disable security/detect-object-injection */
 import {
   HttpRequestContract,
+  RequestConnection,
   RouteData,
+  RouteSchemas,
+  UploadedFileContract,
+  ValidatedInput,
   ValidatorContract,
 } from '@blitzbun/contracts';
 import get from 'lodash/get';
 import has from 'lodash/has';
-import { v4 as uuidv4 } from 'uuid';
+import negotiateMediaType from '../utils/accepts';
+import resolveRequestId, { REQUEST_ID_HEADER } from '../utils/request-id';
 import Validator from './validator';
 
 export default class HttpRequest implements HttpRequestContract {
   private readonly url: URL;
-  private readonly requestId: string = uuidv4();
+  private requestId: string;
   private cachedCookies?: Record<string, string>;
   private routeParams: Record<string, string> = {};
+  private uploadedFiles: UploadedFileContract[] = [];
+  private trustedChain?: string[];
+  private validatedInput: ValidatedInput = {};
+  private abortSignal?: AbortSignal;
+  private connection: RequestConnection = {
+    remoteAddress: '',
+    trustProxy: () => false,
+  };
 
   private user?: Record<string, unknown> = {};
   private context: Record<string, unknown> = {};
@@ -25,6 +38,9 @@ export default class HttpRequest implements HttpRequestContract {
     private readonly routeData: RouteData = {}
   ) {
     this.url = new URL(nativeRequest.url);
+    this.requestId = resolveRequestId(
+      nativeRequest.headers.get(REQUEST_ID_HEADER)
+    );
   }
 
   private parseCookies(header: string): Record<string, string> {
@@ -73,10 +89,81 @@ export default class HttpRequest implements HttpRequestContract {
     return baseOnly ? `${this.url.origin}` : this.url.href;
   }
 
+  /**
+   * Addresses from the socket outwards through X-Forwarded-For, ending at
+   * the first hop that is not a trusted proxy: the client.
+   */
+  private proxyChain(): string[] {
+    if (!this.trustedChain) {
+      const { remoteAddress, trustProxy } = this.connection;
+      const forwarded = (this.headers.get('x-forwarded-for') ?? '')
+        .split(',')
+        .map((address) => address.trim())
+        .filter(Boolean)
+        .reverse();
+      const addresses = [remoteAddress, ...forwarded];
+
+      let hop = 0;
+      while (hop < addresses.length - 1 && trustProxy(addresses[hop], hop)) {
+        hop++;
+      }
+      this.trustedChain = addresses.slice(0, hop + 1);
+    }
+    return this.trustedChain;
+  }
+
+  /**
+   * First value of an X-Forwarded-* header, only when the proxy that
+   * connected to us is trusted to set it.
+   */
+  private forwarded(name: string): string | undefined {
+    const { remoteAddress, trustProxy } = this.connection;
+    if (!trustProxy(remoteAddress, 0)) return undefined;
+    return this.headers.get(name)?.split(',')[0].trim() || undefined;
+  }
+
+  get ip(): string {
+    const chain = this.proxyChain();
+    return chain[chain.length - 1];
+  }
+
+  get ips(): string[] {
+    // client first, closest proxy last, like X-Forwarded-For itself
+    return this.proxyChain().slice(1).reverse();
+  }
+
+  get protocol(): string {
+    const proto =
+      this.forwarded('x-forwarded-proto') ?? this.url.protocol.slice(0, -1);
+    return proto.toLowerCase();
+  }
+
+  get secure(): boolean {
+    return this.protocol === 'https';
+  }
+
+  /**
+   * Aborted when the client disconnects or the route times out. Pass it to
+   * fetch(), queries and other cancellable work started for the request.
+   */
+  get signal(): AbortSignal {
+    return this.abortSignal ?? this.nativeRequest.signal;
+  }
+
+  get hostname(): string {
+    const host =
+      this.forwarded('x-forwarded-host') ??
+      this.headers.get('host') ??
+      this.url.host;
+    // drop the port, keeping bracketed IPv6 literals whole
+    const end = host.startsWith('[')
+      ? host.indexOf(']') + 1
+      : host.indexOf(':');
+    return end > 0 ? host.substring(0, end) : host;
+  }
+
   getIp(): string {
-    const xForwardedFor = this.headers.get('x-forwarded-for');
-    if (xForwardedFor) return xForwardedFor.split(',')[0].trim();
-    return this.headers.get('x-real-ip') ?? '';
+    return this.ip;
   }
 
   bearerToken(): string {
@@ -145,6 +232,49 @@ export default class HttpRequest implements HttpRequestContract {
     return this;
   }
 
+  setFiles(files: UploadedFileContract[]): this {
+    this.uploadedFiles = files;
+    return this;
+  }
+
+  setConnection(connection: RequestConnection): this {
+    this.connection = connection;
+    this.trustedChain = undefined;
+    return this;
+  }
+
+  setId(id: string): this {
+    this.requestId = id;
+    return this;
+  }
+
+  setSignal(signal: AbortSignal): this {
+    this.abortSignal = signal;
+    return this;
+  }
+
+  setValidated(input: ValidatedInput): this {
+    this.validatedInput = input;
+    return this;
+  }
+
+  /**
+   * Values parsed by the route's `schema`, typed after it:
+   * `req.validated<typeof schema>().query`.
+   */
+  validated<S extends RouteSchemas = RouteSchemas>(): ValidatedInput<S> {
+    return this.validatedInput as ValidatedInput<S>;
+  }
+
+  file(key: string): UploadedFileContract | undefined {
+    return this.uploadedFiles.find((file) => file.field === key);
+  }
+
+  files(key?: string): UploadedFileContract[] {
+    if (key === undefined) return [...this.uploadedFiles];
+    return this.uploadedFiles.filter((file) => file.field === key);
+  }
+
   hasHeader(key: string): boolean {
     return key in this.headers;
   }
@@ -163,6 +293,14 @@ export default class HttpRequest implements HttpRequestContract {
     );
   }
 
+  /**
+   * Return the media type the client prefers out of `types`, or undefined
+   * when the Accept header rules all of them out.
+   */
+  accepts(...types: string[]): string | undefined {
+    return negotiateMediaType(this.headers.get('accept'), types);
+  }
+
   isJson(): boolean {
     const accept = this.headers.get('accept') ?? '';
     const type = this.headers.get('content-type') ?? '';
@@ -1,8 +1,41 @@
 import {
+  CacheControlOptions,
   CookieOptions,
   HttpResponseContract,
+  HttpRequestContract,
   HttpStatusCode,
+  NegotiationHandlers,
+  ProblemDetails,
+  RouteUrlParams,
+  RouteUrlQuery,
+  SendFileOptions,
+  SerializerRegistryContract,
+  ServerSentEventSender,
+  ServerSentEventStreamOptions,
+  StoredFileOptions,
 } from '@blitzbun/contracts';
+import { AppContext } from '@blitzbun/core';
+import { createHash } from 'node:crypto';
+import { basename, resolve, sep } from 'node:path';
+import {
+  NotAcceptableException,
+  NotFoundException,
+  RangeNotSatisfiableException,
+} from '../exceptions';
+import negotiateMediaType from '../utils/accepts';
+import { isRangeFresh, parseRange } from '../utils/range';
+import createEventStream from '../utils/sse';
+import appendVary from '../utils/vary';
+import SerializerRegistry from './serializers';
+
+/**
+ * Content-Disposition value with an ASCII fallback for old clients and the
+ * RFC 5987 encoded name for everyone else.
+ */
+function contentDisposition(type: string, filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
 
 export default class HttpResponse implements HttpResponseContract {
   private cookies: string[] = [];
@@ -11,6 +44,7 @@ export default class HttpResponse implements HttpResponseContract {
 
   private statusCode: HttpStatusCode = HttpStatusCode.OK;
   private endHooks: Array<() => void | Promise<void>> = [];
+  private sendHooks: Array<(response: Response) => Response> = [];
 
   private addCookiesToHeaders() {
     for (const cookie of this.cookies) {
@@ -22,6 +56,14 @@ export default class HttpResponse implements HttpResponseContract {
     this.endHooks.push(hook);
   }
 
+  /**
+   * Register a hook that may replace the native response right before it
+   * is sent, after end hooks and conditional GET handling have run.
+   */
+  onSend(hook: (response: Response) => Response): void {
+    this.sendHooks.push(hook);
+  }
+
   async runEndHooks(): Promise<void> {
     for (const hook of this.endHooks) {
       await hook();
@@ -42,6 +84,90 @@ export default class HttpResponse implements HttpResponseContract {
     return this;
   }
 
+  getHeader(name: string): string | null {
+    return this.headers.get(name);
+  }
+
+  /**
+   * Set the ETag header. Without a value, a tag is computed from the
+   * current body when it is a string or bytes.
+   */
+  etag(value?: string, weak: boolean = true): this {
+    const tag = value ?? this.hashBody();
+    if (tag === undefined) return this;
+
+    const quoted = /^(W\/)?"/.test(tag) ? tag : `"${tag}"`;
+    this.headers.set(
+      'ETag',
+      weak && !quoted.startsWith('W/') ? `W/${quoted}` : quoted
+    );
+    return this;
+  }
+
+  lastModified(date: Date | number | string): this {
+    this.headers.set('Last-Modified', new Date(date).toUTCString());
+    return this;
+  }
+
+  cache(options: CacheControlOptions): this {
+    const directives: string[] = [];
+
+    if (options.public) directives.push('public');
+    if (options.private) directives.push('private');
+    if (options.noCache) directives.push('no-cache');
+    if (options.noStore) directives.push('no-store');
+    if (options.maxAge !== undefined) {
+      directives.push(`max-age=${options.maxAge}`);
+    }
+    if (options.sMaxAge !== undefined) {
+      directives.push(`s-maxage=${options.sMaxAge}`);
+    }
+    if (options.mustRevalidate) directives.push('must-revalidate');
+    if (options.immutable) directives.push('immutable');
+    if (options.staleWhileRevalidate !== undefined) {
+      directives.push(`stale-while-revalidate=${options.staleWhileRevalidate}`);
+    }
+
+    this.headers.set('Cache-Control', directives.join(', '));
+    return this;
+  }
+
+  /**
+   * Turn the response into a 304, keeping the validators and cache
+   * headers but dropping the body and the headers that describe it.
+   */
+  notModified(): this {
+    this.statusCode = HttpStatusCode.NOT_MODIFIED;
+    this.body = null;
+    for (const name of [
+      'Content-Type',
+      'Content-Length',
+      'Content-Range',
+      'Content-Disposition',
+    ]) {
+      this.headers.delete(name);
+    }
+    return this;
+  }
+
+  private hashBody(): string | undefined {
+    const body = this.body;
+    let bytes: Uint8Array;
+
+    if (typeof body === 'string') {
+      bytes = Buffer.from(body);
+    } else if (body instanceof Uint8Array) {
+      bytes = body;
+    } else if (body instanceof ArrayBuffer) {
+      bytes = new Uint8Array(body);
+    } else {
+      return undefined;
+    }
+
+    const hash = createHash('sha1').update(bytes).digest('base64url');
+    return `${bytes.length.toString(16)}-${hash.substring(0, 27)}`;
+  }
+
   cookie(name: string, value: string, options: CookieOptions = {}): this {
     let cookieStr = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
 
@@ -63,6 +189,84 @@ export default class HttpResponse implements HttpResponseContract {
     return this;
   }
 
+  problem(details: ProblemDetails): this {
+    this.body = JSON.stringify(details);
+    this.headers.set('Content-Type', 'application/problem+json');
+    return this;
+  }
+
+  /**
+   * Serialize data with the registered format the client accepts best,
+   * optionally limited to `formats`. JSON wins when anything goes.
+   */
+  send(data: unknown, formats?: string[]): this {
+    const registry = this.serializers();
+    const serializers = (formats ?? registry.formats()).map((format) => {
+      const serializer = registry.get(format);
+      if (!serializer) {
+        throw new Error(`Serializer [${format}] is not registered.`);
+      }
+      return serializer;
+    });
+
+    appendVary(this.headers, 'Accept');
+    const type = negotiateMediaType(
+      this.currentRequest()?.getHeader('accept'),
+      serializers.map((serializer) => serializer.type)
+    );
+    const serializer = serializers.find((item) => item.type === type);
+    if (!serializer) throw new NotAcceptableException();
+
+    this.body = serializer.serialize(data) as unknown as BodyInit;
+    this.headers.set('Content-Type', serializer.type);
+    return this;
+  }
+
+  /**
+   * Run the handler for the format the client accepts best. Keys are
+   * registered serializer names or media types; a `default` handler runs
+   * instead of a 406 when none of them is acceptable.
+   */
+  negotiate(handlers: NegotiationHandlers): this {
+    const registry = this.serializers();
+    const { default: fallback, ...formatHandlers } = handlers;
+    const formats = Object.keys(formatHandlers);
+    const types = formats.map((format) => {
+      if (format.includes('/')) return format;
+      const serializer = registry.get(format);
+      if (!serializer) {
+        throw new Error(`Serializer [${format}] is not registered.`);
+      }
+      return serializer.type;
+    });
+
+    appendVary(this.headers, 'Accept');
+    const type = negotiateMediaType(
+      this.currentRequest()?.getHeader('accept'),
+      types
+    );
+    if (type === undefined) {
+      if (!fallback) throw new NotAcceptableException();
+      fallback();
+      return this;
+    }
+
+    formatHandlers[formats[types.indexOf(type)]]();
+    return this;
+  }
+
+  private serializers(): SerializerRegistryContract {
+    const container = AppContext.get();
+    return container.has('serializers')
+      ? container.resolve('serializers')
+      : new SerializerRegistry();
+  }
+
+  private currentRequest(): HttpRequestContract | undefined {
+    const container = AppContext.get();
+    return container.has('request') ? container.resolve('request') : undefined;
+  }
+
   text(data: string): this {
     this.body = data;
     this.headers.set('Content-Type', 'text/plain; charset=utf-8');
@@ -76,11 +280,23 @@ export default class HttpResponse implements HttpResponseContract {
   }
 
   redirect(url: string): this {
+    if (this.statusCode < 300 || this.statusCode >= 400) {
+      this.statusCode = HttpStatusCode.FOUND;
+    }
     this.headers.set('Location', url);
     this.body = null;
     return this;
   }
 
+  redirectToRoute(
+    name: string,
+    params: RouteUrlParams = {},
+    query: RouteUrlQuery = {}
+  ): this {
+    const router = AppContext.get().resolve('router');
+    return this.redirect(router.url(name, params, query));
+  }
+
   notFound(message = 'Not Found'): this {
     return this.status(HttpStatusCode.NOT_FOUND).text(message);
   }
@@ -101,15 +317,174 @@ export default class HttpResponse implements HttpResponseContract {
     return this;
   }
 
+  /**
+   * Stream a file from a storage disk. The file is shown inline unless
+   * `download` is set, either to `true` or to the name to save it under.
+   */
+  async fromStorage(
+    path: string,
+    options: StoredFileOptions = {}
+  ): Promise<this> {
+    const disk = AppContext.get().resolve('storage').disk(options.disk);
+    const stat = await disk.stat(path);
+    const stream = stat ? await disk.stream(path) : null;
+
+    if (!stat || !stream) {
+      throw new NotFoundException();
+    }
+
+    const filename =
+      typeof options.download === 'string' ? options.download : basename(path);
+
+    this.body = stream;
+    this.headers.set('Content-Type', stat.type || 'application/octet-stream');
+    this.headers.set('Content-Length', String(stat.size));
+    this.headers.set('Last-Modified', stat.lastModified.toUTCString());
+    this.headers.set(
+      'Content-Disposition',
+      contentDisposition(options.download ? 'attachment' : 'inline', filename)
+    );
+    return this;
+  }
+
+  /**
+   * Send a file from the local filesystem. `Range` requests are answered
+   * with `206 Partial Content`, unless an `If-Range` validator no longer
+   * matches the file. Pass `root` when the path comes from user input to
+   * keep it inside that directory.
+   */
+  async sendFile(path: string, options: SendFileOptions = {}): Promise<this> {
+    const fullPath = options.root
+      ? resolve(options.root, path.replace(/^\/+/, ''))
+      : resolve(path);
+
+    if (options.root) {
+      const root = resolve(options.root);
+      if (fullPath !== root && !fullPath.startsWith(root + sep)) {
+        throw new NotFoundException();
+      }
+    }
+
+    const file = Bun.file(fullPath);
+    if (!(await file.exists())) {
+      throw new NotFoundException();
+    }
+
+    const size = file.size;
+    const lastModified = new Date(file.lastModified);
+    // strong, so clients can resume downloads with If-Range
+    const etag = `"${size.toString(16)}-${file.lastModified.toString(16)}"`;
+
+    this.headers.set('Accept-Ranges', 'bytes');
+    this.headers.set('ETag', etag);
+    this.headers.set('Last-Modified', lastModified.toUTCString());
+    this.headers.set('Content-Type', file.type || 'application/octet-stream');
+
+    if (options.download) {
+      const filename =
+        typeof options.download === 'string'
+          ? options.download
+          : basename(fullPath);
+      this.headers.set(
+        'Content-Disposition',
+        contentDisposition('attachment', filename)
+      );
+    }
+
+    const req = this.currentRequest();
+    const range = isRangeFresh(req?.getHeader('if-range'), etag, lastModified)
+      ? parseRange(req?.getHeader('range'), size)
+      : undefined;
+
+    if (range === null) {
+      throw new RangeNotSatisfiableException(size);
+    }
+
+    if (range) {
+      this.statusCode = HttpStatusCode.PARTIAL_CONTENT;
+      this.body = file.slice(range.start, range.end + 1);
+      this.headers.set(
+        'Content-Range',
+        `bytes ${range.start}-${range.end}/${size}`
+      );
+      this.headers.set('Content-Length', String(range.end - range.start + 1));
+      return this;
+    }
+
+    this.body = file;
+    this.headers.set('Content-Length', String(size));
+    return this;
+  }
+
+  /**
+   * Stream a body as it is produced. Strings yielded by an async iterable
+   * are sent as UTF-8.
+   */
+  stream(
+    body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>,
+    contentType: string = 'application/octet-stream'
+  ): this {
+    if (body instanceof ReadableStream) {
+      this.body = body;
+    } else {
+      const encoder = new TextEncoder();
+      const iterator = body[Symbol.asyncIterator]();
+      this.body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const { done, value } = await iterator.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(
+              typeof value === 'string' ? encoder.encode(value) : value
+            );
+          }
+        },
+        async cancel() {
+          await iterator.return?.();
+        },
+      });
+    }
+
+    this.headers.set('Content-Type', contentType);
+    return this;
+  }
+
+  /**
+   * Open a Server-Sent Events stream. The handler receives a sender that
+   * writes events until the handler settles or the client disconnects.
+   */
+  sse(
+    handler: (send: ServerSentEventSender) => void | Promise<void>,
+    options: ServerSentEventStreamOptions = {}
+  ): this {
+    this.body = createEventStream(handler, options);
+    this.headers.set('Content-Type', 'text/event-stream; charset=utf-8');
+    this.headers.set('Cache-Control', 'no-cache');
+    this.headers.set('Connection', 'keep-alive');
+    // stop reverse proxies such as nginx from buffering the stream
+    this.headers.set('X-Accel-Buffering', 'no');
+    return this;
+  }
+
   isEmpty(): boolean {
-    return this.body === null;
+    return (
+      this.body === null &&
+      !this.headers.has('Location') &&
+      this.statusCode !== HttpStatusCode.NOT_MODIFIED
+    );
+  }
+
+  getBody(): BodyInit | null {
+    return this.body;
   }
 
   getFinalResponse(): Response {
     this.addCookiesToHeaders();
-    return new Response(this.body, {
+    const response = new Response(this.body, {
       status: this.statusCode,
       headers: this.headers,
     });
+    return this.sendHooks.reduce((current, hook) => hook(current), response);
   }
 }
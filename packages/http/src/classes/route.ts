@@ -3,15 +3,34 @@ import {
   HttpMiddleware,
   HttpRouteContract,
   HttpRouteParam,
+  HttpRouterContract,
+  MiddlewareReference,
   RouteData,
+  RouteSchemas,
 } from '@blitzbun/contracts';
+import createSchemaMiddleware from '../utils/route-schema';
 
 export default class HttpRoute implements HttpRouteContract {
-  constructor(public route: HttpRouteParam) {}
+  private readonly validator?: HttpMiddleware;
+
+  constructor(
+    public route: HttpRouteParam,
+    private resolve?: HttpRouterContract['resolveMiddleware']
+  ) {
+    const schemas = route.meta?.schema as RouteSchemas | undefined;
+    if (schemas) {
+      this.validator = createSchemaMiddleware(schemas, [
+        ...(route.domain?.keys ?? []),
+        ...route.keys,
+      ]);
+    }
+  }
 
   getModule(): RouteData {
     return {
+      name: this.route.name,
       keys: this.route.keys,
+      domain: this.route.domain,
       meta: this.route.meta,
       module: this.route.module,
       pattern: this.route.pattern,
@@ -19,23 +38,55 @@ export default class HttpRoute implements HttpRouteContract {
     };
   }
 
-  matches(method: HttpMethod, url: string): boolean {
-    if (this.route.method === method) {
-      const match = this.route.pattern.exec(url);
-      if (match) {
-        return true;
-      }
-      if (!url.endsWith('/')) {
-        const matchWithSlash = this.route.pattern.exec(`${url}/`);
-        if (matchWithSlash) {
-          return true;
-        }
-      }
+  getMethod(): HttpMethod {
+    return this.route.method;
+  }
+
+  getPath(): string {
+    return this.route.path;
+  }
+
+  getMiddleware(): MiddlewareReference[] {
+    return this.route.middleware;
+  }
+
+  matches(method: HttpMethod, url: string, host?: string): boolean {
+    if (this.route.domain && !this.route.domain.pattern.test(host ?? '')) {
+      return false;
     }
-    return false;
+    // patterns accept an optional trailing slash already
+    return this.route.method === method && this.route.pattern.test(url);
+  }
+
+  /**
+   * What runs once the route middleware has passed: the schema check, if
+   * any, then the handler itself.
+   */
+  handlers(): HttpMiddleware[] {
+    return this.validator
+      ? [this.validator, this.route.handler]
+      : [this.route.handler];
   }
 
+  /**
+   * @deprecated Use getMiddleware() for the route middleware and
+   * handlers() for what runs after it.
+   *
+   * The route middleware, with names resolved through the router that
+   * registered it, followed by the handlers. Global server middleware is
+   * not included.
+   */
   middlewares(): HttpMiddleware[] {
-    return [...this.route.middleware, this.route.handler];
+    const exclude = (this.route.meta?.withoutMiddleware ??
+      []) as MiddlewareReference[];
+    const middleware = this.resolve
+      ? this.resolve(this.route.middleware, exclude)
+      : this.route.middleware.map((ref) => {
+          if (typeof ref === 'string') {
+            throw new Error(`Middleware not defined: ${ref}`);
+          }
+          return ref;
+        });
+    return [...middleware, ...this.handlers()];
   }
 }
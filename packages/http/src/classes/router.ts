@@ -1,21 +1,58 @@
+/* eslint-disable security/detect-object-injection */
 import {
   HttpMethod,
   HttpMiddleware,
+  HttpMiddlewareFactory,
   HttpRouteContract,
   HttpRouterContract,
   HttpRouterGroupOptions,
   MetaData,
+  MiddlewareReference,
+  RequestLimits,
+  ResourceAction,
+  ResourceController,
+  ResourceOptions,
+  RouteUrlParams,
+  RouteUrlQuery,
+  SignedUrlOptions,
 } from '@blitzbun/contracts';
+import { AppContext } from '@blitzbun/core';
 import { parse } from 'regexparam';
+import compileDomain from '../utils/domain';
+import { signUrl } from '../utils/url-signature';
 import HttpRouteCollection from './collection';
 import HttpRouterContext from './context';
+import HttpMiddlewareRegistry from './middleware-registry';
+
+// the route name goes on the first method, since names are unique
+const RESOURCE_ACTIONS: Array<{
+  action: ResourceAction;
+  methods: HttpMethod[];
+  member: boolean;
+}> = [
+  { action: 'list', methods: [HttpMethod.GET], member: false },
+  { action: 'create', methods: [HttpMethod.POST], member: false },
+  { action: 'fetch', methods: [HttpMethod.GET], member: true },
+  {
+    action: 'update',
+    methods: [HttpMethod.PUT, HttpMethod.PATCH],
+    member: true,
+  },
+  { action: 'delete', methods: [HttpMethod.DELETE], member: true },
+];
+
+// actions whose BaseController handlers respond with transformed models
+const TRANSFORMED_ACTIONS: ResourceAction[] = ['list', 'fetch', 'create'];
 
 export default class HttpRouter implements HttpRouterContract {
   private module: string;
   private modulePath: string;
 
   private context = new HttpRouterContext();
-  private routes = new HttpRouteCollection();
+  private middleware = new HttpMiddlewareRegistry();
+  private routes = new HttpRouteCollection((middleware, exclude) =>
+    this.resolveMiddleware(middleware, exclude)
+  );
 
   constructor() {
     this.module = '';
@@ -36,6 +73,33 @@ export default class HttpRouter implements HttpRouterContract {
     return this;
   }
 
+  /**
+   * Name a middleware so routes, groups and the server can reference it as
+   * a string. The factory receives the parameters of the reference, so
+   * `throttle:60,1` calls it with '60' and '1'.
+   */
+  aliasMiddleware(name: string, factory: HttpMiddlewareFactory): this {
+    this.middleware.alias(name, factory);
+    return this;
+  }
+
+  middlewareGroup(name: string, middleware: MiddlewareReference[]): this {
+    this.middleware.group(name, middleware);
+    return this;
+  }
+
+  middlewarePriority(names: string[]): this {
+    this.middleware.priority(names);
+    return this;
+  }
+
+  resolveMiddleware(
+    middleware: MiddlewareReference[],
+    exclude: MiddlewareReference[] = []
+  ): HttpMiddleware[] {
+    return this.middleware.resolve(middleware, exclude);
+  }
+
   get(path: string, handler: HttpMiddleware, meta: MetaData = {}): this {
     return this.addRoute(HttpMethod.GET, path, handler, meta);
   }
@@ -56,12 +120,183 @@ export default class HttpRouter implements HttpRouterContract {
     return this.addRoute(HttpMethod.PATCH, path, handler, meta);
   }
 
-  match(method: HttpMethod, url: string): HttpRouteContract | undefined {
-    return this.routes.all().find((route) => {
-      return route.matches(method, url);
+  /**
+   * Register the conventional REST routes for a controller exposing
+   * `list`, `fetch`, `create`, `update` and `delete` handlers. Routes are
+   * named `<name>.<action>`, where the name defaults to the path with
+   * slashes replaced by dots.
+   */
+  resource(
+    path: string,
+    controller: ResourceController,
+    options: ResourceOptions = {}
+  ): this {
+    const base = '/' + path.replace(/^\/+|\/+$/g, '');
+    const name = options.name ?? base.slice(1).replace(/\//g, '.');
+    const param = options.param ?? 'id';
+
+    for (const { action, methods, member } of RESOURCE_ACTIONS) {
+      const handler = controller[action];
+      if (!handler) continue;
+      if (options.only && !options.only.includes(action)) continue;
+      if (options.except && options.except.includes(action)) continue;
+
+      const meta = {
+        ...(options.transformer && TRANSFORMED_ACTIONS.includes(action)
+          ? { transformer: options.transformer, paginated: action === 'list' }
+          : {}),
+        ...options.meta?.[action],
+      };
+      const middleware = options.middleware?.[action] ?? [];
+      const actionPath = member ? `${base}/:${param}` : base;
+
+      this.group({ middleware }, () => {
+        methods.forEach((method, index) => {
+          this.addRoute(
+            method,
+            actionPath,
+            handler,
+            index === 0 ? { ...meta, name: `${name}.${action}` } : meta
+          );
+        });
+      });
+    }
+
+    return this;
+  }
+
+  match(
+    method: HttpMethod,
+    url: string,
+    host?: string
+  ): HttpRouteContract | undefined {
+    return this.routes.match(method, url, host);
+  }
+
+  getRoutes(): HttpRouteContract[] {
+    return this.routes.all();
+  }
+
+  allowedMethods(url: string, host?: string): HttpMethod[] {
+    const methods = this.routes.methods(url, host);
+    if (methods.length === 0) return methods;
+
+    if (
+      methods.includes(HttpMethod.GET) &&
+      !methods.includes(HttpMethod.HEAD)
+    ) {
+      methods.push(HttpMethod.HEAD);
+    }
+    if (!methods.includes(HttpMethod.OPTIONS)) {
+      methods.push(HttpMethod.OPTIONS);
+    }
+    return methods;
+  }
+
+  url(
+    name: string,
+    params: RouteUrlParams = {},
+    query: RouteUrlQuery = {}
+  ): string {
+    const route = this.routes.get(name);
+    if (!route) {
+      throw new Error(`Route not defined: ${name}`);
+    }
+
+    const segments: string[] = [];
+    for (const segment of route.route.path.split('/')) {
+      if (!segment) continue;
+      const value = this.injectSegment(name, segment, params);
+      if (value) segments.push(value);
+    }
+
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) search.append(key, String(value));
+    }
+
+    const qs = search.toString();
+    const path = `/${segments.join('/')}${qs ? `?${qs}` : ''}`;
+
+    // a path alone would resolve against whichever host the caller is on
+    const { domain } = route.route;
+    if (!domain) return path;
+    return `${this.scheme()}://${this.injectHost(name, domain.host, params)}${path}`;
+  }
+
+  signedUrl(
+    name: string,
+    params: RouteUrlParams = {},
+    options: SignedUrlOptions = {}
+  ): string {
+    return signUrl(this.url(name, params, options.query), options.expiresIn);
+  }
+
+  /**
+   * Fill the `{placeholders}` of a domain group's host pattern.
+   */
+  private injectHost(
+    name: string,
+    host: string,
+    params: RouteUrlParams
+  ): string {
+    return host.replace(/\{(\w+)\}/g, (_match, key: string) => {
+      const value = params[key];
+      if (value === undefined || value === '') {
+        throw new Error(`Missing parameter "${key}" for route "${name}"`);
+      }
+      return encodeURIComponent(String(value));
     });
   }
 
+  /**
+   * The scheme of the request being handled, so links keep working over
+   * plain HTTP in development, and https outside of a request.
+   */
+  private scheme(): string {
+    try {
+      const container = AppContext.get();
+      if (container.has('request')) {
+        return container.resolve('request').protocol;
+      }
+    } catch {
+      // not running inside a request or job
+    }
+    return 'https';
+  }
+
+  /**
+   * Reverse a single regexparam segment (`static`, `:key`, `:key?`,
+   * `:key.ext` or `*`, filled from `wild`) using the given params.
+   */
+  private injectSegment(
+    name: string,
+    segment: string,
+    params: RouteUrlParams
+  ): string {
+    if (segment[0] === '*') {
+      const value = params['wild'];
+      if (value === undefined) return '';
+      return String(value).split('/').map(encodeURIComponent).join('/');
+    }
+
+    if (segment[0] !== ':') return segment;
+
+    const ext = segment.indexOf('.', 1);
+    const optional = segment.indexOf('?', 1);
+    const end = optional !== -1 ? optional : ext !== -1 ? ext : segment.length;
+    const key = segment.substring(1, end);
+    const suffix = ext !== -1 ? segment.substring(ext).replace('?', '') : '';
+
+    const value = params[key];
+    if (value === undefined || value === '') {
+      if (optional !== -1 && ext === -1) return '';
+      throw new Error(`Missing parameter "${key}" for route "${name}"`);
+    }
+
+    return encodeURIComponent(String(value)) + suffix;
+  }
+
   private addRoute(
     method: HttpMethod,
     path: string,
@@ -69,11 +304,34 @@ export default class HttpRouter implements HttpRouterContract {
     meta: MetaData = {}
   ): this {
     path = this.context.prefix + path;
-    const { keys, pattern } = parse(path);
+    const parsed = parse(path);
+    const pattern = parsed.pattern;
+    // regexparam names the wildcard capture `*`; it is exposed as `wild`
+    const keys = parsed.keys.map((key) => (key === '*' ? 'wild' : key));
     const middleware = [...this.context.middleware];
+    const name =
+      typeof meta.name === 'string' ? this.context.name + meta.name : undefined;
+    // route meta limits override the ones inherited from enclosing groups
+    const limits = {
+      ...this.context.limits,
+      ...(meta.limits as RequestLimits | undefined),
+    };
+    const withoutMiddleware = [
+      ...this.context.withoutMiddleware,
+      ...((meta.withoutMiddleware as MiddlewareReference[] | undefined) ?? []),
+    ];
     this.routes.add({
+      name,
       keys,
-      meta,
+      ...(this.context.domain
+        ? { domain: compileDomain(this.context.domain) }
+        : {}),
+      meta: {
+        ...meta,
+        ...(name ? { name } : {}),
+        ...(Object.keys(limits).length > 0 ? { limits } : {}),
+        ...(withoutMiddleware.length > 0 ? { withoutMiddleware } : {}),
+      },
       path,
       method,
       handler,
@@ -0,0 +1,39 @@
+import {
+  ResponseSerializer,
+  SerializerRegistryContract,
+} from '@blitzbun/contracts';
+import {
+  csvSerializer,
+  jsonSerializer,
+  xmlSerializer,
+} from '../utils/serializers';
+
+/**
+ * Named serializers used by `res.send()` and `res.negotiate()`. The order
+ * of registration is the server's preference when the client accepts
+ * several formats equally, so JSON stays the default.
+ */
+export default class SerializerRegistry implements SerializerRegistryContract {
+  private serializers = new Map<string, ResponseSerializer>([
+    ['json', jsonSerializer],
+    ['csv', csvSerializer],
+    ['xml', xmlSerializer],
+  ]);
+
+  formats(): string[] {
+    return [...this.serializers.keys()];
+  }
+
+  has(format: string): boolean {
+    return this.serializers.has(format);
+  }
+
+  get(format: string): ResponseSerializer | undefined {
+    return this.serializers.get(format);
+  }
+
+  register(format: string, serializer: ResponseSerializer): this {
+    this.serializers.set(format, serializer);
+    return this;
+  }
+}
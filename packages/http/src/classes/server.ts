@@ -3,19 +3,42 @@ import { AppContext } from '@blitzbun/core';
 import { Server as BunServer } from 'bun';
 
 import createRequestLoggerMiddleware from '../middlewares/request-logger';
+import {
+  BadRequestException,
+  HttpException,
+  MethodNotAllowedException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '../exceptions';
+import isFresh from '../utils/fresh';
+import observe from '../utils/observe';
 import createHttpRequest from '../utils/request-params';
+import resolveRequestId, { REQUEST_ID_HEADER } from '../utils/request-id';
+import compileTrust, { TrustProxyFn } from '../utils/trust-proxy';
+import HttpExceptionHandler from './exception-handler';
+import HttpRequest from './request';
 import HttpResponse from './response';
+import HttpRoute from './route';
 import WebSocketServer from './wsServer';
 
 import {
   ApplicationContract,
   AppRegistry,
+  CacheControlOptions,
+  ExceptionHandlerContract,
+  HttpErrorMiddleware,
   HttpMethod,
   HttpMiddleware,
   HttpRequestContract,
+  HttpRouteContract,
   HttpRouterContract,
   HttpServerContract,
+  HttpStatusCode,
   LoggerContract,
+  MiddlewareReference,
+  RequestConnection,
+  RequestLimits,
+  TrustProxyOption,
 } from '@blitzbun/contracts';
 
 export default class HttpServer<T extends AppRegistry>
@@ -26,13 +49,37 @@ export default class HttpServer<T extends AppRegistry>
   private logger: LoggerContract;
   private wsServer: WebSocketServer;
   private router: HttpRouterContract;
-  private wares: HttpMiddleware[] = [];
+  private limits: RequestLimits;
+  private timeout: number;
+  private trustProxy: TrustProxyFn;
+  private wares: MiddlewareReference[] = [];
+  // resolved per route on first use, reset when global middleware changes
+  private pipelines = new WeakMap<HttpRouteContract, HttpMiddleware[]>();
+  private earlyWares: HttpMiddleware[] = [];
+  private errorWares: HttpErrorMiddleware[] = [];
+  private exceptionHandler: ExceptionHandlerContract;
 
   constructor(private app: ApplicationContract<T>) {
     this.started = false;
     this.router = this.app.get('router');
     this.logger = this.app.get('logger').withContext('http');
 
+    const configService = this.app.get('config');
+    this.limits = configService.get('app.limits', {}) as RequestLimits;
+    this.timeout = configService.get<number>('app.timeout', 0);
+    this.trustProxy = compileTrust(
+      configService.get('app.trustProxy', false) as TrustProxyOption
+    );
+    this.exceptionHandler = this.app.has('exceptionHandler')
+      ? this.app.get('exceptionHandler')
+      : new HttpExceptionHandler(this.logger.withContext('exception'), {
+          debug: configService.get<boolean>('app.isDevEnv', false),
+          problemDetails: configService.get<boolean>(
+            'app.problemDetails',
+            false
+          ),
+        });
+
     this.wsServer = new WebSocketServer(
       this.app.getContainer(),
       this.app.get('wsRouter'),
@@ -43,8 +90,35 @@ export default class HttpServer<T extends AppRegistry>
     this.use(createRequestLoggerMiddleware(this.logger.withContext('request')));
   }
 
-  public use(middleware: HttpMiddleware): this {
+  public use(middleware: MiddlewareReference): this {
     this.wares.push(middleware);
+    this.pipelines = new WeakMap();
+    return this;
+  }
+
+  /**
+   * Middleware that sees every request before it is matched to a route,
+   * such as static files. Requests they answer never reach the router;
+   * calling next() hands the request on to routing.
+   */
+  public useBeforeRouting(middleware: HttpMiddleware): this {
+    this.earlyWares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Middleware for errors thrown in, or passed to next() by, the
+   * middleware chain. Each one answers the request or calls next() to pass
+   * the error on, optionally replaced; errors nobody answers are rendered
+   * by the exception handler.
+   */
+  public useErrorMiddleware(middleware: HttpErrorMiddleware): this {
+    this.errorWares.push(middleware);
+    return this;
+  }
+
+  public setExceptionHandler(handler: ExceptionHandlerContract): this {
+    this.exceptionHandler = handler;
     return this;
   }
 
@@ -53,6 +127,11 @@ export default class HttpServer<T extends AppRegistry>
     server: BunServer
   ): Promise<Response | undefined> {
     const res = new HttpResponse();
+    // one id for the request, its log lines, its jobs and the response
+    const requestId = resolveRequestId(
+      nativeRequest.headers.get(REQUEST_ID_HEADER)
+    );
+    res.header(REQUEST_ID_HEADER, requestId);
     const urlData = new URL(nativeRequest.url);
     const scopedContainer = this.app.getContainer().clone();
 
@@ -60,74 +139,131 @@ export default class HttpServer<T extends AppRegistry>
       let response: Response | undefined;
       if (this.wsServer.upgrade(server, nativeRequest)) return;
 
-      const route = this.router.match(
-        nativeRequest.method as HttpMethod,
-        urlData.pathname
-      );
-
-      if (!route) {
-        this.logger.warn('Route not found', {
-          path: urlData.pathname,
-          method: nativeRequest.method,
-          url: nativeRequest.url,
-        });
-        return res.status(404).text('Not Found').getFinalResponse();
+      const method = nativeRequest.method as HttpMethod;
+      const isHead = method === HttpMethod.HEAD;
+      const connection = this.connection(nativeRequest, server);
+      // resolved like req.hostname, so trusted proxies can route by host
+      const host = new HttpRequest({}, nativeRequest)
+        .setConnection(connection)
+        .hostname.toLowerCase();
+
+      if (
+        this.earlyWares.length > 0 &&
+        (await this.handleBeforeRouting(
+          nativeRequest,
+          connection,
+          requestId,
+          res
+        ))
+      ) {
+        const response = res.getFinalResponse();
+        return isHead ? this.withoutBody(response) : response;
       }
 
-      await AppContext.run(scopedContainer, async () => {
-        let req: HttpRequestContract;
-        try {
-          req = await createHttpRequest(nativeRequest, route);
-        } catch (error) {
-          const err = error as Error;
-          this.logger.warn('Request parsing failed', {
-            error: err.message,
-            url: nativeRequest.url,
-            method: nativeRequest.method,
-          });
-          response = res
-            .status(400)
-            .json({
-              code: 400,
-              message: err.message,
-            })
-            .getFinalResponse();
-          return;
-        }
+      let route = this.router.match(method, urlData.pathname, host);
 
-        const allMiddlewares = [...this.wares, ...route.middlewares()];
+      if (!route && isHead) {
+        route = this.router.match(HttpMethod.GET, urlData.pathname, host);
+      }
 
-        scopedContainer.bind('request', req);
+      if (!route) {
+        const allowed = this.router.allowedMethods(urlData.pathname, host);
+
+        if (allowed.length === 0 || method !== HttpMethod.OPTIONS) {
+          await this.renderException(
+            allowed.length === 0
+              ? new NotFoundException()
+              : new MethodNotAllowedException(allowed),
+            new HttpRequest({}, nativeRequest)
+              .setConnection(connection)
+              .setId(requestId),
+            res
+          );
+          const response = res.getFinalResponse();
+          return isHead ? this.withoutBody(response) : response;
+        }
 
-        let index = -1;
+        route = this.createOptionsRoute(urlData.pathname, allowed);
+      }
 
-        const next = async (i: number): Promise<void> => {
-          if (i <= index) throw new Error('next() called multiple times');
-          index = i;
-          if (i > 50) throw new Error('Too many middleware layers');
-          const mw = allMiddlewares[i];
-          if (mw) await mw(req, res, () => next(i + 1));
-        };
+      await AppContext.run(
+        scopedContainer,
+        async () => {
+          let req: HttpRequestContract;
+          try {
+            req = await createHttpRequest(
+              nativeRequest,
+              route,
+              {
+                ...this.limits,
+                ...(route.getModule().meta?.limits as
+                  | RequestLimits
+                  | undefined),
+              },
+              host
+            );
+            req.setConnection(connection).setId(requestId);
+          } catch (error) {
+            req = new HttpRequest({}, nativeRequest, route.getModule())
+              .setConnection(connection)
+              .setId(requestId);
+            await this.renderException(
+              error instanceof HttpException
+                ? error
+                : new BadRequestException((error as Error).message),
+              req,
+              res
+            );
+            response = res.getFinalResponse();
+            return;
+          }
 
-        await next(0);
+          scopedContainer.bind('request', req);
+
+          // route meta `timeout: false` or 0 turns the global timeout off
+          const timeout = route.getModule().meta?.timeout ?? this.timeout;
+
+          let allMiddlewares: HttpMiddleware[] = [];
+          try {
+            // unknown middleware names surface here when not caught at boot
+            allMiddlewares = [...this.pipeline(route), ...route.handlers()];
+            await this.runRoute(
+              allMiddlewares,
+              req,
+              res,
+              nativeRequest,
+              Number(timeout) || 0
+            );
+          } catch (error) {
+            await this.handleError(error, req, res);
+          } finally {
+            // uploads only live for the duration of the request
+            await Promise.all(req.files().map((file) => file.delete()));
+            this.terminate(allMiddlewares, req, res);
+          }
 
-        if (res.isEmpty()) {
-          response = res.status(404).text('Not Found').getFinalResponse();
-          return;
-        }
+          if (res.isEmpty()) {
+            await this.renderException(new NotFoundException(), req, res);
+            response = res.getFinalResponse();
+            return;
+          }
 
-        await res.runEndHooks();
-        response = res.getFinalResponse();
+          await res.runEndHooks();
+          this.applyConditionalGet(req, res, route);
+          response = res.getFinalResponse();
 
-        if (!response) {
-          response = new Response(null, { status: 204 });
-        }
-      });
+          if (!response) {
+            response = new Response(null, { status: 204 });
+          }
+        },
+        { requestId }
+      );
 
-      return response;
+      return isHead && response ? this.withoutBody(response) : response;
     } catch (err) {
       const error = err as Error;
       this.logger.error('Server error occurred', {
+        requestId,
         method: nativeRequest.method,
         url: nativeRequest.url,
         error: error.message,
@@ -137,10 +273,304 @@ export default class HttpServer<T extends AppRegistry>
     }
   }
 
+  /**
+   * Global and route middleware for a route, with aliases and groups
+   * resolved, exclusions from `withoutMiddleware` meta applied and the
+   * priority order enforced across both.
+   */
+  private pipeline(route: HttpRouteContract): HttpMiddleware[] {
+    let middleware = this.pipelines.get(route);
+    if (!middleware) {
+      middleware = this.router.resolveMiddleware(
+        [...this.wares, ...route.getMiddleware()],
+        (route.getModule().meta?.withoutMiddleware ??
+          []) as MiddlewareReference[]
+      );
+      this.pipelines.set(route, middleware);
+    }
+    return middleware;
+  }
+
+  /**
+   * Run a middleware chain, resolving to true when the last middleware
+   * called next() and the request is still unanswered. next() resolves
+   * once the rest of the chain has finished, and next(err) fails it with
+   * that error, so upstream middleware sees it like a thrown one.
+   */
+  private async runMiddleware(
+    middlewares: HttpMiddleware[],
+    req: HttpRequestContract,
+    res: HttpResponse
+  ): Promise<boolean> {
+    let index = -1;
+
+    const next = async (i: number, err?: unknown): Promise<void> => {
+      if (i <= index) throw new Error('next() called multiple times');
+      index = i;
+      if (err !== undefined) throw err;
+      if (i > 50) throw new Error('Too many middleware layers');
+      const mw = middlewares[i];
+      if (!mw) return;
+
+      let downstream: Promise<void> | undefined;
+      let observed = false;
+      await mw(req, res, (err) => {
+        downstream = next(i + 1, err);
+        downstream.catch(() => undefined);
+        return observe(downstream, () => (observed = true));
+      });
+
+      // a middleware that awaited next() has handled any failure already,
+      // one that never did still has the rest of the chain waited for
+      if (observed) await downstream?.catch(() => undefined);
+      else await downstream;
+    };
+
+    await next(0);
+    return index === middlewares.length;
+  }
+
+  /**
+   * Run a route's chain with `req.signal` tied to the client connection and
+   * the timeout in milliseconds. A chain that times out is abandoned with a
+   * 503, and the aborted signal tells the work still running to stop.
+   */
+  private async runRoute(
+    middlewares: HttpMiddleware[],
+    req: HttpRequestContract,
+    res: HttpResponse,
+    nativeRequest: Request,
+    timeout: number
+  ): Promise<void> {
+    const controller = new AbortController();
+    req.setSignal(AbortSignal.any([nativeRequest.signal, controller.signal]));
+
+    const onAbort = () =>
+      this.logger.warn('Request aborted by client', {
+        url: req.getUrl(),
+        requestId: req.id,
+        method: req.method,
+      });
+    nativeRequest.signal.addEventListener('abort', onAbort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const chain = this.runMiddleware(middlewares, req, res);
+    try {
+      if (timeout <= 0) {
+        await chain;
+        return;
+      }
+
+      await Promise.race([
+        chain,
+        new Promise<never>((_resolve, reject) => {
+          timer = setTimeout(() => {
+            this.logger.warn('Request timed out', {
+              url: req.getUrl(),
+              requestId: req.id,
+              method: req.method,
+              timeout,
+            });
+            controller.abort(
+              new DOMException('Request timed out', 'TimeoutError')
+            );
+            reject(new ServiceUnavailableException('Request timed out'));
+          }, timeout);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      nativeRequest.signal.removeEventListener('abort', onAbort);
+      // an abandoned chain may still fail once it notices the abort
+      chain.catch(() => undefined);
+    }
+  }
+
+  private async handleError(
+    error: unknown,
+    req: HttpRequestContract,
+    res: HttpResponse
+  ): Promise<void> {
+    let current = error;
+
+    for (const handler of this.errorWares) {
+      let passed = false;
+      try {
+        await handler(current, req, res, async (err) => {
+          passed = true;
+          if (err !== undefined) current = err;
+        });
+      } catch (thrown) {
+        passed = true;
+        current = thrown;
+      }
+      if (!passed && !res.isEmpty()) return;
+    }
+
+    await this.renderException(current, req, res);
+  }
+
+  /**
+   * Run the `terminate()` hooks of the middleware that handled a request
+   * once the response has been handed to Bun. They can no longer change
+   * the response, and their failures are only logged.
+   */
+  private terminate(
+    middlewares: HttpMiddleware[],
+    req: HttpRequestContract,
+    res: HttpResponse
+  ): void {
+    const hooks = middlewares.filter((mw) => mw.terminate);
+    if (hooks.length === 0) return;
+
+    setImmediate(async () => {
+      for (const mw of hooks) {
+        try {
+          await mw.terminate!(req, res);
+        } catch (error) {
+          this.logger.error('Middleware terminate() failed', {
+            url: req.getUrl(),
+            requestId: req.id,
+            middleware: mw.name || 'anonymous',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Resolves to true when a middleware registered with useBeforeRouting()
+   * answered the request. They get a request without route params or a
+   * parsed body, since neither is known yet.
+   */
+  private async handleBeforeRouting(
+    nativeRequest: Request,
+    connection: RequestConnection,
+    requestId: string,
+    res: HttpResponse
+  ): Promise<boolean> {
+    const container = this.app.getContainer().clone();
+    let handled = false;
+
+    await AppContext.run(
+      container,
+      async () => {
+        const req = new HttpRequest({}, nativeRequest)
+          .setConnection(connection)
+          .setId(requestId);
+        container.bind('request', req);
+
+        try {
+          if (await this.runMiddleware(this.earlyWares, req, res)) return;
+        } catch (error) {
+          await this.handleError(error, req, res);
+        }
+        this.terminate(this.earlyWares, req, res);
+
+        if (res.isEmpty()) {
+          await this.renderException(new NotFoundException(), req, res);
+        }
+        await res.runEndHooks();
+        handled = true;
+      },
+      { requestId }
+    );
+
+    return handled;
+  }
+
+  private connection(
+    nativeRequest: Request,
+    server: BunServer
+  ): RequestConnection {
+    return {
+      remoteAddress: server.requestIP(nativeRequest)?.address ?? '',
+      trustProxy: this.trustProxy,
+    };
+  }
+
+  private async renderException(
+    error: unknown,
+    req: HttpRequestContract,
+    res: HttpResponse
+  ): Promise<void> {
+    await this.exceptionHandler.report(error, req);
+    await this.exceptionHandler.render(error, req, res);
+  }
+
+  /**
+   * Add the validators and cache headers requested through route meta,
+   * then answer 304 when the client's cached copy is still fresh.
+   */
+  private applyConditionalGet(
+    req: HttpRequestContract,
+    res: HttpResponse,
+    route: HttpRouteContract
+  ): void {
+    if (req.method !== HttpMethod.GET && req.method !== HttpMethod.HEAD) {
+      return;
+    }
+    if (res.getStatusCode() !== HttpStatusCode.OK) return;
+
+    const meta = route.getModule().meta ?? {};
+    if (meta.cache && !res.getHeader('Cache-Control')) {
+      res.cache(meta.cache as CacheControlOptions);
+    }
+    if (meta.etag === true && !res.getHeader('ETag')) {
+      res.etag();
+    }
+
+    if (isFresh(req, res)) {
+      res.notModified();
+    }
+  }
+
+  /**
+   * Answers OPTIONS for paths that have routes but no explicit OPTIONS
+   * handler. Global middleware still runs first, so CORS preflight
+   * responses take precedence over this fallback. The request path is
+   * never compiled, so it matches everything and captures nothing.
+   */
+  private createOptionsRoute(
+    path: string,
+    allowed: HttpMethod[]
+  ): HttpRouteContract {
+    return new HttpRoute({
+      path,
+      keys: [],
+      pattern: /^.*$/,
+      module: '',
+      modulePath: '',
+      middleware: [],
+      method: HttpMethod.OPTIONS,
+      handler: async (_req, res) => {
+        return res
+          .status(HttpStatusCode.NO_CONTENT)
+          .header('Allow', allowed.join(', '))
+          .text('');
+      },
+    });
+  }
+
+  private withoutBody(response: Response): Response {
+    // stops streams such as SSE, which would otherwise keep producing for
+    // a client that never reads them
+    response.body?.cancel().catch(() => undefined);
+    return new Response(null, {
+      status: response.status,
+      headers: response.headers,
+      statusText: response.statusText,
+    });
+  }
+
   public async start(): Promise<void> {
     if (!this.started) {
       const envService = this.app.get('env');
 
+      // unknown middleware names fail the boot rather than the first request
+      for (const route of this.router.getRoutes()) this.pipeline(route);
+
       this.server = Bun.serve({
         fetch: this.handle.bind(this),
         websocket: this.wsServer.getHandlers(),
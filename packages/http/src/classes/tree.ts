@@ -0,0 +1,160 @@
+/* eslint-disable security/detect-object-injection */
+import HttpRoute from './route';
+
+interface HttpRouteNode {
+  suffix: string;
+  route?: HttpRoute;
+  params: HttpRouteNode[];
+  wildcard?: HttpRouteNode;
+  statics: Map<string, HttpRouteNode>;
+}
+
+type Segment =
+  | { type: 'static'; value: string }
+  | { type: 'param'; suffix: string; optional: boolean }
+  | { type: 'wildcard'; optional: boolean };
+
+const createNode = (suffix: string = ''): HttpRouteNode => ({
+  suffix,
+  params: [],
+  statics: new Map(),
+});
+
+/**
+ * Segment trie used to resolve a path to a single route without scanning
+ * every registered pattern. Follows the regexparam syntax (`:param`,
+ * `:param?`, `:param.ext`, `*` and `*?`) and prefers static segments over params
+ * and params over wildcards, regardless of registration order.
+ */
+export default class HttpRouteTree {
+  private root = createNode();
+
+  static split(path: string): string[] {
+    return path.split('/').filter((segment) => segment !== '');
+  }
+
+  private parseSegment(segment: string): Segment {
+    if (segment[0] === '*') {
+      return { type: 'wildcard', optional: segment[1] === '?' };
+    }
+    if (segment[0] !== ':') {
+      return { type: 'static', value: segment.toLowerCase() };
+    }
+
+    const ext = segment.indexOf('.', 1);
+    const optional = segment.indexOf('?', 1) !== -1;
+    return {
+      type: 'param',
+      optional: optional && ext === -1,
+      suffix: ext === -1 ? '' : segment.substring(ext).toLowerCase(),
+    };
+  }
+
+  /**
+   * Expand optional params and wildcards into every concrete variant of the
+   * path so the trie itself never has to deal with missing segments.
+   */
+  private expand(segments: Segment[]): Segment[][] {
+    return segments.reduce<Segment[][]>(
+      (variants, segment) => {
+        const next = variants.map((variant) => [...variant, segment]);
+        if (segment.type !== 'static' && segment.optional) {
+          return [...next, ...variants];
+        }
+        return next;
+      },
+      [[]]
+    );
+  }
+
+  private child(node: HttpRouteNode, segment: Segment): HttpRouteNode {
+    if (segment.type === 'wildcard') {
+      node.wildcard ??= createNode();
+      return node.wildcard;
+    }
+
+    if (segment.type === 'param') {
+      let param = node.params.find((p) => p.suffix === segment.suffix);
+      if (!param) {
+        param = createNode(segment.suffix);
+        node.params.push(param);
+        // longer suffixes are more specific and must be tried first
+        node.params.sort((a, b) => b.suffix.length - a.suffix.length);
+      }
+      return param;
+    }
+
+    let child = node.statics.get(segment.value);
+    if (!child) {
+      child = createNode();
+      node.statics.set(segment.value, child);
+    }
+    return child;
+  }
+
+  insert(route: HttpRoute): void {
+    const segments = HttpRouteTree.split(route.route.path).map((segment) =>
+      this.parseSegment(segment)
+    );
+
+    for (const variant of this.expand(segments)) {
+      const node = variant.reduce(
+        (current, segment) => this.child(current, segment),
+        this.root
+      );
+      // first registration wins, same as the previous linear scan
+      node.route ??= route;
+    }
+  }
+
+  lookup(path: string): HttpRoute | undefined {
+    return this.find(
+      this.root,
+      HttpRouteTree.split(path),
+      0,
+      path.endsWith('/')
+    );
+  }
+
+  private find(
+    node: HttpRouteNode,
+    segments: string[],
+    index: number,
+    trailingSlash: boolean
+  ): HttpRoute | undefined {
+    if (index === segments.length) {
+      // as in regexparam, a wildcard only matches nothing after a slash:
+      // `/files/*` matches `/files/` but not `/files`
+      return node.route ?? (trailingSlash ? node.wildcard?.route : undefined);
+    }
+
+    const segment = segments[index];
+    const lowered = segment.toLowerCase();
+
+    const staticChild = node.statics.get(lowered);
+    if (staticChild) {
+      const found = this.find(staticChild, segments, index + 1, trailingSlash);
+      if (found) return found;
+    }
+
+    for (const param of node.params) {
+      if (
+        lowered.length > param.suffix.length &&
+        lowered.endsWith(param.suffix)
+      ) {
+        const found = this.find(param, segments, index + 1, trailingSlash);
+        if (found) return found;
+      }
+    }
+
+    if (node.wildcard) {
+      // a wildcard swallows one or more segments, shortest match first
+      for (let end = index + 1; end <= segments.length; end++) {
+        const found = this.find(node.wildcard, segments, end, trailingSlash);
+        if (found) return found;
+      }
+    }
+
+    return undefined;
+  }
+}
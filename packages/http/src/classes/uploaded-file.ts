@@ -0,0 +1,91 @@
+import { AppContext } from '@blitzbun/core';
+import { UploadedFileContract } from '@blitzbun/contracts';
+import { rm } from 'node:fs/promises';
+import { SNIFF_LENGTH, sniffMimeType } from '../utils/file-type';
+
+/**
+ * A file received in a multipart request. The contents live in a temporary
+ * file that is removed once the response has been sent, so call `store()`
+ * to keep it.
+ */
+export default class UploadedFile implements UploadedFileContract {
+  private detectedType?: string;
+
+  constructor(
+    public readonly field: string,
+    public readonly name: string,
+    public readonly clientType: string,
+    public readonly size: number,
+    private readonly tempPath: string
+  ) {}
+
+  extension(): string {
+    const dot = this.name.lastIndexOf('.');
+    return dot > 0 ? this.name.substring(dot + 1).toLowerCase() : '';
+  }
+
+  hasExtension(...extensions: string[]): boolean {
+    const extension = this.extension();
+    return extensions.some(
+      (ext) => ext.replace(/^\./, '').toLowerCase() === extension
+    );
+  }
+
+  /**
+   * MIME type detected from the file contents, falling back to the type
+   * sent by the client when the format has no known signature.
+   */
+  async mimeType(): Promise<string> {
+    if (!this.detectedType) {
+      const head = await Bun.file(this.tempPath)
+        .slice(0, SNIFF_LENGTH)
+        .arrayBuffer();
+      this.detectedType =
+        sniffMimeType(new Uint8Array(head)) ??
+        (this.clientType || 'application/octet-stream');
+    }
+    return this.detectedType;
+  }
+
+  /**
+   * Check the detected MIME type against a list of types, where `image/*`
+   * style wildcards match a whole family.
+   */
+  async hasMimeType(...types: string[]): Promise<boolean> {
+    const mimeType = await this.mimeType();
+    return types.some((type) =>
+      type.endsWith('/*')
+        ? mimeType.startsWith(type.slice(0, -1))
+        : mimeType === type
+    );
+  }
+
+  async text(): Promise<string> {
+    return Bun.file(this.tempPath).text();
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    return Bun.file(this.tempPath).arrayBuffer();
+  }
+
+  /**
+   * Store the file in a directory of a storage disk under a random name
+   * that keeps the original extension. Returns the stored path.
+   */
+  async store(disk?: string, directory: string = ''): Promise<string> {
+    const extension = this.extension();
+    const name = crypto.randomUUID() + (extension ? `.${extension}` : '');
+    const prefix = directory.replace(/^\/+|\/+$/g, '');
+    return this.storeAs(disk, prefix ? `${prefix}/${name}` : name);
+  }
+
+  async storeAs(disk: string | undefined, path: string): Promise<string> {
+    const storage = AppContext.get().resolve('storage');
+    await storage.disk(disk).put(path, Bun.file(this.tempPath));
+    return path;
+  }
+
+  async delete(): Promise<void> {
+    await rm(this.tempPath, { force: true });
+  }
+}
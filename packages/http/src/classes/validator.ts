@@ -6,8 +6,7 @@ import {
 } from '@blitzbun/contracts';
 import { FileHelper } from '@blitzbun/core';
 import { z, ZodError, ZodIssue, ZodObject } from 'zod';
-
-import path from 'path';
+import resolveModuleFile from '../utils/module-file';
 
 export default class Validator implements ValidatorContract {
   private errors: ValidationError[] = [];
@@ -16,48 +15,24 @@ export default class Validator implements ValidatorContract {
   constructor(
     private readonly path: string,
     private readonly routeData: RouteData,
-    private readonly req: HttpRequestContract
+    private readonly req?: HttpRequestContract
   ) {}
 
-  /**
-   * Parse validator path like:
-   * - "payment.file" => use current module, path "payment/file.ts"
-   * - "app::payment.file" => module "app", path "payment/file.ts"
-   */
-  private parseValidatorPath(): {
-    moduleName: string;
-    filePathParts: string[];
-  } {
-    if (this.path.includes('::')) {
-      const [moduleName, filePath] = this.path.split('::');
-      return { moduleName, filePathParts: filePath.split('.') };
-    }
-
-    return {
-      moduleName: '',
-      filePathParts: this.path.split('.'),
-    };
-  }
-
   /**
    * Resolve absolute path to validator file
    */
   private getValidatorFilePath(): string {
-    const { moduleName, filePathParts } = this.parseValidatorPath();
-    const fileName = filePathParts.pop()!; // guaranteed by split('.')
-    const dirPath = path.join(
+    return resolveModuleFile(
       this.routeData.modulePath as string,
-      moduleName,
       'validators',
-      ...filePathParts
+      this.path
     );
-    return path.join(dirPath, `${fileName}.ts`);
   }
 
   /**
    * Dynamically load and cache schema
    */
-  private async loadSchema(): Promise<ZodObject<Record<string, z.ZodTypeAny>>> {
+  async getSchema(): Promise<ZodObject<Record<string, z.ZodTypeAny>>> {
     if (this.schema) return this.schema;
 
     const filePath = this.getValidatorFilePath();
@@ -82,9 +57,9 @@ export default class Validator implements ValidatorContract {
   }
 
   async fails(): Promise<boolean> {
-    const data = this.req.all<Record<string, unknown>>();
+    const data = this.req?.all<Record<string, unknown>>() ?? {};
 
-    const schema = await this.loadSchema();
+    const schema = await this.getSchema();
     const result = await schema.safeParseAsync(data);
 
     if (!result.success && result.error instanceof ZodError) {
@@ -0,0 +1,52 @@
+import path from 'path';
+
+import { ConsoleCommand } from '@blitzbun/contracts';
+import type { Argv } from 'yargs';
+import { generateClient } from '../utils/client';
+
+interface HandlerArgv {
+  output: string;
+}
+
+export default class ClientGenerateCommand extends ConsoleCommand {
+  /**
+   * Define command
+   *
+   * @param yargs
+   * @returns
+   */
+  define(yargs: Argv): Argv {
+    return yargs.command<HandlerArgv>(
+      'client:generate',
+      'Writes a typed API client for the named routes to disk',
+      (yargs: Argv) =>
+        yargs.option('output', {
+          describe: 'File to write, relative to the working directory',
+          type: 'string',
+          default: 'api-client.ts',
+        }),
+      this.handle.bind(this)
+    );
+  }
+
+  /**
+   * Function to handle command execution
+   *
+   * @param argv
+   */
+  async handle(argv: HandlerArgv): Promise<void> {
+    if (!this.app.has('router')) {
+      console.error('No router registered, routes cannot be read');
+      return;
+    }
+
+    const output = path.resolve(argv.output);
+    const source = await generateClient(
+      this.app.get('router').getRoutes(),
+      path.dirname(output)
+    );
+
+    await Bun.write(output, source);
+    console.log(`API client written to ${output}`);
+  }
+}
@@ -0,0 +1,57 @@
+import path from 'path';
+
+import { ConsoleCommand, OpenApiOptions } from '@blitzbun/contracts';
+import type { Argv } from 'yargs';
+import { generateOpenApiDocument } from '../utils/openapi';
+
+interface HandlerArgv {
+  output?: string;
+}
+
+export default class OpenApiGenerateCommand extends ConsoleCommand {
+  /**
+   * Define command
+   *
+   * @param yargs
+   * @returns
+   */
+  define(yargs: Argv): Argv {
+    return yargs.command<HandlerArgv>(
+      'openapi:generate',
+      'Writes the OpenAPI document for the registered routes to disk',
+      (yargs: Argv) =>
+        yargs.option('output', {
+          describe: 'File to write, relative to the working directory',
+          type: 'string',
+        }),
+      this.handle.bind(this)
+    );
+  }
+
+  /**
+   * Function to handle command execution
+   *
+   * @param argv
+   */
+  async handle(argv: HandlerArgv): Promise<void> {
+    if (!this.app.has('router')) {
+      console.error('No router registered, routes cannot be documented');
+      return;
+    }
+
+    const options = this.app.get('config').get('openapi', {}) as OpenApiOptions;
+    const output = path.resolve(
+      argv.output ?? options.output ?? 'openapi.json'
+    );
+    const document = await generateOpenApiDocument(
+      this.app.get('router').getRoutes(),
+      options
+    );
+
+    // stable formatting and a trailing newline keep CI diffs readable
+    await Bun.write(output, JSON.stringify(document, null, 2) + '\n');
+    console.log(
+      `OpenAPI document with ${Object.keys(document.paths).length} paths written to ${output}`
+    );
+  }
+}
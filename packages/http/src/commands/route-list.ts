@@ -0,0 +1,178 @@
+/* eslint-disable security/detect-object-injection */
+import { ConsoleCommand, HttpRouteContract } from '@blitzbun/contracts';
+import type { Argv } from 'yargs';
+
+interface HandlerArgv {
+  method?: string;
+  module?: string;
+  path?: string;
+  json?: boolean;
+}
+
+interface RouteRow {
+  method: string;
+  domain: string;
+  path: string;
+  name: string;
+  module: string;
+  middleware: string[];
+  meta: Record<string, unknown>;
+}
+
+// already shown in their own column
+const HIDDEN_META = ['name'];
+
+const isScalar = (value: unknown): boolean =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+/**
+ * Meta values that read well in a table or JSON. Anything else, such as
+ * Zod schemas, is only listed by key.
+ */
+function summarizeMeta(meta: Record<string, unknown>): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(meta)) {
+    if (HIDDEN_META.includes(key)) continue;
+
+    const plain =
+      isScalar(value) ||
+      (Array.isArray(value) && value.every(isScalar)) ||
+      (typeof value === 'object' &&
+        value !== null &&
+        Object.getPrototypeOf(value) === Object.prototype &&
+        Object.values(value).every(isScalar));
+    summary[key] = plain ? value : true;
+  }
+
+  return summary;
+}
+
+function toRow(route: HttpRouteContract): RouteRow {
+  const data = route.getModule();
+
+  return {
+    method: route.getMethod(),
+    domain: data.domain?.host ?? '',
+    path: route.getPath(),
+    name: data.name ?? '',
+    module: data.module ?? '',
+    middleware: route
+      .getMiddleware()
+      .map((middleware) =>
+        typeof middleware === 'string'
+          ? middleware
+          : middleware.name.replace(/^bound /, '') || 'anonymous'
+      ),
+    meta: summarizeMeta(data.meta ?? {}),
+  };
+}
+
+function formatMeta(meta: Record<string, unknown>): string {
+  return Object.entries(meta)
+    .map(([key, value]) => {
+      if (value === true) return key;
+      const text =
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? JSON.stringify(value)
+          : String(value);
+      return `${key}=${text}`;
+    })
+    .join(' ');
+}
+
+function renderTable(rows: RouteRow[]): string {
+  const header = ['METHOD', 'PATH', 'NAME', 'MODULE', 'MIDDLEWARE', 'META'];
+  const lines = rows.map((row) => [
+    row.method,
+    row.domain + row.path,
+    row.name,
+    row.module,
+    row.middleware.join(', '),
+    formatMeta(row.meta),
+  ]);
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...lines.map((line) => line[column].length))
+  );
+
+  return [header, ...lines]
+    .map((line) =>
+      line
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+export default class RouteListCommand extends ConsoleCommand {
+  /**
+   * Define command
+   *
+   * @param yargs
+   * @returns
+   */
+  define(yargs: Argv): Argv {
+    return yargs.command<HandlerArgv>(
+      'route:list',
+      'Lists the routes registered by all modules',
+      (yargs: Argv) =>
+        yargs
+          .option('method', {
+            describe: 'Only routes for this HTTP method',
+            type: 'string',
+          })
+          .option('module', {
+            describe: 'Only routes registered by this module',
+            type: 'string',
+          })
+          .option('path', {
+            describe: 'Only routes whose path contains this text',
+            type: 'string',
+          })
+          .option('json', {
+            describe: 'Print the routes as JSON',
+            type: 'boolean',
+            default: false,
+          }),
+      this.handle.bind(this)
+    );
+  }
+
+  /**
+   * Function to handle command execution
+   *
+   * @param argv
+   */
+  async handle(argv: HandlerArgv): Promise<void> {
+    if (!this.app.has('router')) {
+      console.error('No router registered, routes cannot be listed');
+      return;
+    }
+
+    const method = argv.method?.toUpperCase();
+    const rows = this.app
+      .get('router')
+      .getRoutes()
+      .map(toRow)
+      .filter(
+        (row) =>
+          (!method || row.method === method) &&
+          (!argv.module || row.module === argv.module) &&
+          (!argv.path || row.path.includes(argv.path))
+      );
+
+    if (argv.json) {
+      console.log(JSON.stringify(rows, null, 2));
+      return;
+    }
+
+    if (rows.length === 0) {
+      console.log('No routes matched the given filters.');
+      return;
+    }
+
+    console.log(renderTable(rows));
+    console.log(`\nShowing ${rows.length} route(s).`);
+  }
+}
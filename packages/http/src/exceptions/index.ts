@@ -0,0 +1,110 @@
+import {
+  HttpMessage,
+  HttpMethod,
+  HttpStatusCode,
+  ValidationError,
+} from '@blitzbun/contracts';
+
+/**
+ * Base class for errors that map to an HTTP status. Throw any of these from
+ * a middleware or handler and the server's exception handler renders them.
+ */
+export class HttpException extends Error {
+  constructor(
+    public readonly status: HttpStatusCode,
+    message: string,
+    public readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestException extends HttpException {
+  constructor(message: string = HttpMessage.BAD_REQUEST) {
+    super(HttpStatusCode.BAD_REQUEST, message);
+  }
+}
+
+export class UnauthorizedException extends HttpException {
+  constructor(message: string = HttpMessage.UNAUTHORIZED) {
+    super(HttpStatusCode.UNAUTHORIZED, message);
+  }
+}
+
+export class ForbiddenException extends HttpException {
+  constructor(message: string = HttpMessage.FORBIDDEN) {
+    super(HttpStatusCode.FORBIDDEN, message);
+  }
+}
+
+export class NotFoundException extends HttpException {
+  constructor(message: string = HttpMessage.NOT_FOUND) {
+    super(HttpStatusCode.NOT_FOUND, message);
+  }
+}
+
+export class MethodNotAllowedException extends HttpException {
+  constructor(
+    allowed: HttpMethod[],
+    message: string = HttpMessage.METHOD_NOT_ALLOWED
+  ) {
+    super(HttpStatusCode.METHOD_NOT_ALLOWED, message, {
+      Allow: allowed.join(', '),
+    });
+  }
+}
+
+export class NotAcceptableException extends HttpException {
+  constructor(message: string = HttpMessage.NOT_ACCEPTABLE) {
+    super(HttpStatusCode.NOT_ACCEPTABLE, message);
+  }
+}
+
+export class ConflictException extends HttpException {
+  constructor(message: string = HttpMessage.CONFLICT) {
+    super(HttpStatusCode.CONFLICT, message);
+  }
+}
+
+export class PayloadTooLargeException extends HttpException {
+  constructor(message: string = HttpMessage.PAYLOAD_TOO_LARGE) {
+    super(HttpStatusCode.PAYLOAD_TOO_LARGE, message);
+  }
+}
+
+export class RangeNotSatisfiableException extends HttpException {
+  constructor(
+    size: number,
+    message: string = HttpMessage.RANGE_NOT_SATISFIABLE
+  ) {
+    super(HttpStatusCode.RANGE_NOT_SATISFIABLE, message, {
+      'Content-Range': `bytes */${size}`,
+    });
+  }
+}
+
+export class ValidationException extends HttpException {
+  constructor(
+    public readonly errors: ValidationError[],
+    message: string = 'Validation failed'
+  ) {
+    super(HttpStatusCode.BAD_REQUEST, message);
+  }
+}
+
+export class TooManyRequestsException extends HttpException {
+  constructor(retryAfter?: number, message: string = HttpMessage.THROTTLED) {
+    super(
+      HttpStatusCode.THROTTLED,
+      message,
+      retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : {}
+    );
+  }
+}
+
+export class ServiceUnavailableException extends HttpException {
+  constructor(message: string = HttpMessage.SERVICE_UNAVAILABLE) {
+    super(HttpStatusCode.SERVICE_UNAVAILABLE, message);
+  }
+}
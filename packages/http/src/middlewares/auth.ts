@@ -8,21 +8,26 @@ import { AppContext } from '@blitzbun/core';
 import { isUuid } from 'packages/core/src/utils/common';
 
 import jwt, { TokenExpiredError } from 'jsonwebtoken';
+import errorResponse from '../utils/error-response';
 import RateLimiter from '../utils/rate-limiter';
 
 export default async (
   req: HttpRequestContract,
   res: HttpResponseContract,
-  next: (err?: unknown) => void
+  next: (err?: unknown) => Promise<void>
 ): Promise<unknown> => {
   const appContainer = AppContext.get();
   const configService = appContainer.resolve('config');
+  const problem = configService.get<boolean>('app.problemDetails', false);
 
   if (!req.isValidContentType()) {
-    return res.status(HttpStatusCode.BAD_REQUEST).json({
-      message: HttpMessage.BAD_REQUEST,
-      code: HttpStatusCode.BAD_REQUEST,
-    });
+    return errorResponse(
+      req,
+      res,
+      HttpStatusCode.BAD_REQUEST,
+      HttpMessage.BAD_REQUEST,
+      { problem }
+    );
   }
 
   const token = req.bearerToken();
@@ -31,10 +36,14 @@ export default async (
   const jwtLogin = configService.get('app.jwtLogin', false);
 
   if (rateLimiter.failed) {
-    return res.status(HttpStatusCode.THROTTLED).json({
-      message: HttpMessage.THROTTLED,
-      code: HttpStatusCode.THROTTLED,
-    });
+    res.header('Retry-After', String(rateLimiter.retrySecs));
+    return errorResponse(
+      req,
+      res,
+      HttpStatusCode.THROTTLED,
+      HttpMessage.THROTTLED,
+      { problem }
+    );
   }
 
   if (jwtLogin && jwtToken) {
@@ -55,18 +64,24 @@ export default async (
     } catch (e) {
       const error = e as TokenExpiredError;
       console.log('AuthError: ', error.message);
-      return res.status(HttpStatusCode.UNAUTHORIZED).json({
-        message: HttpMessage.UNAUTHORIZED,
-        code: HttpStatusCode.UNAUTHORIZED,
-      });
+      return errorResponse(
+        req,
+        res,
+        HttpStatusCode.UNAUTHORIZED,
+        HttpMessage.UNAUTHORIZED,
+        { problem }
+      );
     }
   }
 
   if (!isUuid(req.getUser('uuid'))) {
-    return res.status(HttpStatusCode.UNAUTHORIZED).json({
-      message: HttpMessage.UNAUTHORIZED,
-      code: HttpStatusCode.UNAUTHORIZED,
-    });
+    return errorResponse(
+      req,
+      res,
+      HttpStatusCode.UNAUTHORIZED,
+      HttpMessage.UNAUTHORIZED,
+      { problem }
+    );
   }
 
   return next();
@@ -0,0 +1,236 @@
+/* eslint-disable security/detect-object-injection */
+import {
+  CompressionEncoding,
+  CompressionOptions,
+  HttpMiddleware,
+  HttpRequestContract,
+  HttpResponseContract,
+  HttpStatusCode,
+} from '@blitzbun/contracts';
+import zlib from 'node:zlib';
+import appendVary from '../utils/vary';
+
+const defaultOptions: Required<CompressionOptions> = {
+  enabled: true,
+  threshold: 1024,
+  encodings: ['br', 'zstd', 'gzip', 'deflate'],
+  levels: {},
+  filter: isCompressible,
+};
+
+// brotli defaults to its maximum quality, far too slow for live responses
+const defaultLevels: Record<CompressionEncoding, number> = {
+  br: 4,
+  zstd: 3,
+  gzip: 6,
+  deflate: 6,
+};
+
+/**
+ * Text based types worth compressing. Images, archives, audio and video
+ * are already compressed, and event streams must reach the client unbuffered.
+ */
+export function isCompressible(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type === 'text/event-stream') return false;
+
+  const [main, sub = ''] = type.split('/');
+  // structured syntax suffixes such as application/problem+json
+  const format = sub.substring(sub.lastIndexOf('+') + 1);
+
+  return (
+    main === 'text' ||
+    type === 'image/svg+xml' ||
+    (main === 'application' &&
+      ['json', 'xml', 'javascript', 'x-ndjson'].includes(format))
+  );
+}
+
+/**
+ * Pick the accepted encoding with the highest quality, breaking ties with
+ * the server's order of preference.
+ */
+export function negotiateEncoding(
+  header: string,
+  encodings: CompressionEncoding[]
+): CompressionEncoding | undefined {
+  const accepted = new Map<string, number>();
+
+  for (const part of header.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    if (!name) continue;
+
+    const q = params
+      .map((param) => param.trim())
+      .find((param) => param.startsWith('q='));
+    accepted.set(name, q ? parseFloat(q.substring(2)) || 0 : 1);
+  }
+
+  let best: CompressionEncoding | undefined;
+  let bestQuality = 0;
+
+  for (const encoding of encodings) {
+    const quality = accepted.get(encoding) ?? accepted.get('*') ?? 0;
+    if (quality > bestQuality) {
+      best = encoding;
+      bestQuality = quality;
+    }
+  }
+
+  return best;
+}
+
+function byteLength(body: BodyInit | null): number | undefined {
+  if (typeof body === 'string') return Buffer.byteLength(body);
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (body instanceof Blob) return body.size;
+  return undefined;
+}
+
+function toBuffer(body: BodyInit | null): Buffer | undefined {
+  if (typeof body === 'string') return Buffer.from(body);
+  if (body instanceof ArrayBuffer) return Buffer.from(body);
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  }
+  return undefined;
+}
+
+function compressSync(
+  input: Buffer,
+  encoding: CompressionEncoding,
+  level: number
+): Buffer {
+  switch (encoding) {
+    case 'br':
+      return zlib.brotliCompressSync(input, {
+        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level },
+      });
+    case 'zstd':
+      return zlib.zstdCompressSync(input, {
+        params: { [zlib.constants.ZSTD_c_compressionLevel]: level },
+      });
+    case 'gzip':
+      return zlib.gzipSync(input, { level });
+    case 'deflate':
+      return zlib.deflateSync(input, { level });
+  }
+}
+
+function createCompressor(encoding: CompressionEncoding, level: number) {
+  switch (encoding) {
+    case 'br':
+      return zlib.createBrotliCompress({
+        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level },
+      });
+    case 'zstd':
+      return zlib.createZstdCompress({
+        params: { [zlib.constants.ZSTD_c_compressionLevel]: level },
+      });
+    case 'gzip':
+      return zlib.createGzip({ level });
+    case 'deflate':
+      return zlib.createDeflate({ level });
+  }
+}
+
+/**
+ * Web stream wrapper around a zlib compressor. Every chunk is flushed so
+ * progressively streamed bodies still reach the client as they are written.
+ */
+function createCompressionStream(
+  encoding: CompressionEncoding,
+  level: number
+): TransformStream<Uint8Array, Uint8Array> {
+  const compressor = createCompressor(encoding, level);
+
+  return new TransformStream({
+    start(controller) {
+      compressor.on('data', (chunk: Buffer) => controller.enqueue(chunk));
+      compressor.on('error', (error) => controller.error(error));
+    },
+    transform(chunk) {
+      return new Promise((resolve) => {
+        compressor.write(chunk);
+        compressor.flush(() => resolve());
+      });
+    },
+    flush() {
+      return new Promise((resolve) => {
+        compressor.once('end', resolve);
+        compressor.end();
+      });
+    },
+  });
+}
+
+export default function createCompressionMiddleware(
+  options: CompressionOptions = {}
+): HttpMiddleware {
+  const config = { ...defaultOptions, ...options };
+  const levels = { ...defaultLevels, ...config.levels };
+
+  const compress = (
+    req: HttpRequestContract,
+    res: HttpResponseContract,
+    response: Response
+  ): Response => {
+    const { headers, status } = response;
+
+    if (
+      !response.body ||
+      status === HttpStatusCode.NO_CONTENT ||
+      status === HttpStatusCode.PARTIAL_CONTENT ||
+      headers.has('Content-Encoding') ||
+      headers.has('Content-Range') ||
+      !config.filter(headers.get('Content-Type') ?? '') ||
+      /\bno-transform\b/i.test(headers.get('Cache-Control') ?? '')
+    ) {
+      return response;
+    }
+
+    // the representation depends on Accept-Encoding even when not compressed
+    appendVary(headers, 'Accept-Encoding');
+
+    const body = res.getBody();
+    const size = byteLength(body);
+    if (size !== undefined && size < config.threshold) return response;
+
+    const encoding = negotiateEncoding(
+      req.getHeader('accept-encoding') ?? '',
+      config.encodings
+    );
+    if (!encoding) return response;
+
+    headers.set('Content-Encoding', encoding);
+    headers.delete('Content-Length');
+
+    // a strong validator promises byte-for-byte equality, which no longer holds
+    const etag = headers.get('ETag');
+    if (etag && !etag.startsWith('W/')) headers.set('ETag', `W/${etag}`);
+
+    const level = levels[encoding];
+    const buffered = toBuffer(body);
+    const compressed = buffered
+      ? (compressSync(buffered, encoding, level) as unknown as BodyInit)
+      : response.body.pipeThrough(createCompressionStream(encoding, level));
+
+    return new Response(compressed, {
+      status,
+      headers,
+      statusText: response.statusText,
+    });
+  };
+
+  return async (
+    req: HttpRequestContract,
+    res: HttpResponseContract,
+    next: (err?: unknown) => Promise<void>
+  ) => {
+    // registered up front so error responses rendered later are covered too
+    res.onSend((response) => compress(req, res, response));
+    await next();
+  };
+}
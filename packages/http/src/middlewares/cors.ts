@@ -38,7 +38,7 @@ export default function createCorsMiddleware(
   return async (
     req: HttpRequestContract,
     res: HttpResponseContract,
-    next: (err?: unknown) => void
+    next: (err?: unknown) => Promise<void>
   ) => {
     const origin = req.getHeader('origin') || req.getHeader('Origin');
     const requestHeaders = req.getHeader('access-control-request-headers');
@@ -107,6 +107,6 @@ export default function createCorsMiddleware(
       res.header('Access-Control-Expose-Headers', headers);
     }
 
-    next();
+    return next();
   };
 }
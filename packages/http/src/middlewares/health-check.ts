@@ -58,7 +58,7 @@ export default function createHealthCheckMiddleware(
   return async (
     req: HttpRequestContract,
     res: HttpResponseContract,
-    next: (err?: unknown) => void
+    next: (err?: unknown) => Promise<void>
   ) => {
     const path = req.path;
 
@@ -84,7 +84,7 @@ export default function createHealthCheckMiddleware(
       return res.status(statusCode).json(readiness);
     }
 
-    next();
+    return next();
   };
 }
 
@@ -17,28 +17,19 @@ export default function createRequestLoggerMiddleware(
   return async (
     req: HttpRequestContract,
     res: HttpResponseContract,
-    next: (err?: unknown) => void
+    next: (err?: unknown) => Promise<void>
   ) => {
     const startTime = process.hrtime.bigint();
-    try {
-      next();
-      res.onEnd(async () => {
-        logger.info('Request completed', {
-          url: req.getUrl(),
-          requestId: req.id,
-          method: req.method,
-          responseTime: calculateResponseTime(startTime),
-        });
-      });
-    } catch (error) {
-      logger.error('Request failed', {
+    // failed requests are reported by the exception handler, so errors
+    // pass through here unlogged and only the completion is recorded
+    res.onEnd(async () => {
+      logger.info('Request completed', {
         url: req.getUrl(),
         requestId: req.id,
         method: req.method,
         responseTime: calculateResponseTime(startTime),
-        error: error instanceof Error ? error.message : String(error),
       });
-      next(error);
-    }
+    });
+    await next();
   };
 }
@@ -57,12 +57,12 @@ export default function createSecurityMiddleware(
   return async (
     req: HttpRequestContract,
     res: HttpResponseContract,
-    next: (err?: unknown) => void
+    next: (err?: unknown) => Promise<void>
   ) => {
     // Handle CORS first if enabled
     if (corsMiddleware) {
       let corsHandled = false;
-      await corsMiddleware(req, res, (err) => {
+      await corsMiddleware(req, res, async (err) => {
         corsHandled = true;
         if (err) throw err;
       });
@@ -150,6 +150,6 @@ export default function createSecurityMiddleware(
       res.header('Cross-Origin-Resource-Policy', 'same-origin');
     }
 
-    next();
+    return next();
   };
 }
@@ -1,11 +1,13 @@
 import {
   HttpRequestContract,
   HttpResponseContract,
+  HttpStatusCode,
   SecureSessionOptions,
 } from '@blitzbun/contracts';
 
 import { AppContext } from '@blitzbun/core';
 import crypto from 'node:crypto';
+import errorResponse from '../utils/error-response';
 
 const defaultSessionOptions: SecureSessionOptions = {
   maxAge: 60 * 60 * 24 * 7, // 7 days
@@ -29,7 +31,7 @@ function generateCSRFToken(): string {
 export default async (
   req: HttpRequestContract,
   res: HttpResponseContract,
-  next: (err?: unknown) => void
+  next: (err?: unknown) => Promise<void>
 ): Promise<void> => {
   try {
     const appContainer = AppContext.get();
@@ -52,8 +54,7 @@ export default async (
 
     // Override secure setting based on environment
     sessionConfig.secure =
-      configService.get<boolean>('app.isProd', false) ||
-      req.getHeader('x-forwarded-proto') === 'https';
+      configService.get<boolean>('app.isProd', false) || req.secure;
 
     // Get session store based on strategy
     const cacheManager = appContainer.resolve('cache');
@@ -130,10 +131,15 @@ export default async (
           req.input('_token');
 
         if (!clientToken || clientToken !== sessionData.csrfToken) {
-          res.status(403).json({
-            message: 'CSRF token mismatch',
-            code: 403,
-          });
+          errorResponse(
+            req,
+            res,
+            HttpStatusCode.FORBIDDEN,
+            'CSRF token mismatch',
+            {
+              problem: configService.get<boolean>('app.problemDetails', false),
+            }
+          );
           return;
         }
       }
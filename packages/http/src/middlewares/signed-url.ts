@@ -0,0 +1,30 @@
+import {
+  HttpMessage,
+  HttpRequestContract,
+  HttpResponseContract,
+  HttpStatusCode,
+} from '@blitzbun/contracts';
+import { AppContext } from '@blitzbun/core';
+import errorResponse from '../utils/error-response';
+import { verifyUrl } from '../utils/url-signature';
+
+export default async (
+  req: HttpRequestContract,
+  res: HttpResponseContract,
+  next: (err?: unknown) => Promise<void>
+): Promise<unknown> => {
+  const status = verifyUrl(req.getUrl());
+
+  if (status !== 'valid') {
+    const configService = AppContext.get().resolve('config');
+    return errorResponse(
+      req,
+      res,
+      HttpStatusCode.FORBIDDEN,
+      status === 'expired' ? 'Signature expired' : HttpMessage.FORBIDDEN,
+      { problem: configService.get<boolean>('app.problemDetails', false) }
+    );
+  }
+
+  return next();
+};
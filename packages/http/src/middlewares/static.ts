@@ -0,0 +1,169 @@
+/* eslint-disable security/detect-non-literal-fs-filename, security/detect-object-injection */
+import {
+  HttpMethod,
+  HttpMiddleware,
+  HttpRequestContract,
+  HttpResponseContract,
+  HttpStatusCode,
+  StaticOptions,
+} from '@blitzbun/contracts';
+import { stat } from 'node:fs/promises';
+import { extname, resolve, sep } from 'path';
+import isFresh from '../utils/fresh';
+import appendVary from '../utils/vary';
+import { negotiateEncoding } from './compression';
+
+const defaultOptions: Required<StaticOptions> = {
+  enabled: true,
+  roots: [],
+  prefix: '/',
+  index: ['index.html'],
+  dotfiles: false,
+  precompressed: true,
+  cache: {},
+};
+
+// precompressed siblings, in order of preference
+const SIBLINGS = { br: '.br', gzip: '.gz' } as const;
+
+/**
+ * Path below the URL prefix, or undefined when the request is outside of
+ * it or can't name a file (malformed escapes, null bytes, dotfiles).
+ */
+function relativePath(
+  pathname: string,
+  prefix: string,
+  dotfiles: boolean
+): string | undefined {
+  const base = prefix.replace(/\/+$/, '');
+  if (base && pathname !== base && !pathname.startsWith(`${base}/`)) {
+    return undefined;
+  }
+
+  let path: string;
+  try {
+    path = decodeURIComponent(pathname.substring(base.length));
+  } catch {
+    return undefined;
+  }
+  if (path.includes('\0')) return undefined;
+
+  const segments = path.split('/').filter(Boolean);
+  if (!dotfiles && segments.some((segment) => segment.startsWith('.'))) {
+    return undefined;
+  }
+
+  return path;
+}
+
+async function isFile(path: string): Promise<boolean | 'directory'> {
+  try {
+    const stats = await stat(path);
+    if (stats.isDirectory()) return 'directory';
+    return stats.isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The file a request maps to in one root, looking for index files when it
+ * names a directory. Paths resolving outside the root never match.
+ */
+async function findFile(
+  root: string,
+  path: string,
+  index: string[]
+): Promise<{ file: string; directory: boolean } | undefined> {
+  const base = resolve(root);
+  const target = resolve(base, `.${sep}${path}`);
+  if (target !== base && !target.startsWith(base + sep)) return undefined;
+
+  const found = await isFile(target);
+  if (found === true) return { file: target, directory: false };
+  if (found !== 'directory') return undefined;
+
+  for (const name of index) {
+    const file = resolve(target, name);
+    if ((await isFile(file)) === true) return { file, directory: true };
+  }
+  return undefined;
+}
+
+/**
+ * Serve files from the public directory, or any configured roots, before
+ * routing. Requests for files that don't exist fall through to the router.
+ */
+export default function createStaticMiddleware(
+  options: StaticOptions = {}
+): HttpMiddleware {
+  const config = { ...defaultOptions, ...options };
+
+  const serve = async (
+    req: HttpRequestContract,
+    res: HttpResponseContract,
+    file: string
+  ): Promise<void> => {
+    let sent = file;
+    const type = Bun.file(file).type;
+
+    if (config.precompressed) {
+      // the representation depends on Accept-Encoding even when not encoded
+      res.onSend((response) => {
+        appendVary(response.headers, 'Accept-Encoding');
+        return response;
+      });
+
+      const encoding = negotiateEncoding(
+        req.getHeader('accept-encoding') ?? '',
+        ['br', 'gzip']
+      ) as keyof typeof SIBLINGS | undefined;
+      if (encoding && (await isFile(file + SIBLINGS[encoding])) === true) {
+        sent = file + SIBLINGS[encoding];
+        res.header('Content-Encoding', encoding);
+      }
+    }
+
+    await res.sendFile(sent);
+    // the sibling's own type would be application/x-brotli or gzip
+    res.header('Content-Type', type || 'application/octet-stream');
+
+    const cache =
+      config.cache[extname(file).substring(1).toLowerCase()] ??
+      config.cache['*'];
+    if (cache) res.cache(cache);
+
+    if (isFresh(req, res)) res.notModified();
+  };
+
+  return async (
+    req: HttpRequestContract,
+    res: HttpResponseContract,
+    next: (err?: unknown) => Promise<void>
+  ) => {
+    if (req.method !== HttpMethod.GET && req.method !== HttpMethod.HEAD) {
+      return next();
+    }
+
+    const { pathname } = new URL(req.getUrl());
+    const path = relativePath(pathname, config.prefix, config.dotfiles);
+    if (path === undefined) return next();
+
+    for (const root of config.roots) {
+      const found = await findFile(root, path, config.index);
+      if (!found) continue;
+
+      // relative links in an index page resolve against the directory
+      if (found.directory && !pathname.endsWith('/')) {
+        const { search } = new URL(req.getUrl());
+        return res
+          .status(HttpStatusCode.MOVED_PERMANENTLY)
+          .redirect(`${pathname}/${search}`);
+      }
+
+      return serve(req, res, found.file);
+    }
+
+    return next();
+  };
+}
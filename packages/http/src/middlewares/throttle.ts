@@ -0,0 +1,43 @@
+import {
+  HttpMessage,
+  HttpMiddleware,
+  HttpRequestContract,
+  HttpResponseContract,
+  HttpStatusCode,
+} from '@blitzbun/contracts';
+import { AppContext } from '@blitzbun/core';
+import errorResponse from '../utils/error-response';
+import RateLimiter from '../utils/rate-limiter';
+
+/**
+ * Limit each client to `requests` per `minutes`. Route meta `rpm` and
+ * `rpmDuration` still take precedence, as they do for the auth middleware.
+ */
+export default function createThrottleMiddleware(
+  requests: number = 60,
+  minutes: number = 1
+): HttpMiddleware {
+  return async (
+    req: HttpRequestContract,
+    res: HttpResponseContract,
+    next: (err?: unknown) => Promise<void>
+  ) => {
+    const rateLimiter = await RateLimiter(req, requests, minutes * 60);
+
+    res.header('X-RateLimit-Limit', String(rateLimiter.reqs));
+    if (rateLimiter.failed) {
+      const configService = AppContext.get().resolve('config');
+      res.header('Retry-After', String(rateLimiter.retrySecs));
+      return errorResponse(
+        req,
+        res,
+        HttpStatusCode.THROTTLED,
+        HttpMessage.THROTTLED,
+        { problem: configService.get<boolean>('app.problemDetails', false) }
+      );
+    }
+
+    res.header('X-RateLimit-Remaining', String(rateLimiter.remaining ?? 0));
+    return next();
+  };
+}
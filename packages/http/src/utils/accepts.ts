@@ -0,0 +1,95 @@
+interface MediaRange {
+  type: string;
+  subtype: string;
+  q: number;
+  index: number;
+}
+
+interface Match {
+  q: number;
+  specificity: number;
+  index: number;
+}
+
+function parseAccept(header: string): MediaRange[] {
+  const ranges: MediaRange[] = [];
+
+  header.split(',').forEach((part, index) => {
+    const [range, ...params] = part.trim().toLowerCase().split(';');
+    const [type, subtype] = range.trim().split('/');
+    if (!type || !subtype) return;
+
+    const q = params
+      .map((param) => param.trim())
+      .find((param) => param.startsWith('q='));
+    ranges.push({
+      type,
+      subtype,
+      index,
+      q: q ? parseFloat(q.substring(2)) || 0 : 1,
+    });
+  });
+
+  return ranges;
+}
+
+/**
+ * Find the most specific range that covers a media type, since that is
+ * the one whose quality applies (`text/csv;q=0` beats `text/*`).
+ */
+function matchType(mediaType: string, ranges: MediaRange[]): Match | null {
+  const [type, subtype] = mediaType
+    .split(';')[0]
+    .trim()
+    .toLowerCase()
+    .split('/');
+  let best: Match | null = null;
+
+  for (const range of ranges) {
+    let specificity: number;
+    if (range.type === type && range.subtype === subtype) specificity = 2;
+    else if (range.type === type && range.subtype === '*') specificity = 1;
+    else if (range.type === '*' && range.subtype === '*') specificity = 0;
+    else continue;
+
+    if (!best || specificity > best.specificity) {
+      best = { q: range.q, specificity, index: range.index };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the media type the client prefers out of the ones the server can
+ * produce. Ties on quality go to the more specific range, then to the
+ * client's order and finally to the order of `types`. A missing Accept
+ * header accepts anything, so the first type wins.
+ */
+export default function negotiateMediaType(
+  header: string | null | undefined,
+  types: string[]
+): string | undefined {
+  if (!header?.trim()) return types[0];
+
+  const ranges = parseAccept(header);
+  let best: { type: string; match: Match } | undefined;
+
+  for (const type of types) {
+    const match = matchType(type, ranges);
+    if (!match || match.q <= 0) continue;
+
+    if (
+      !best ||
+      match.q > best.match.q ||
+      (match.q === best.match.q &&
+        (match.specificity > best.match.specificity ||
+          (match.specificity === best.match.specificity &&
+            match.index < best.match.index)))
+    ) {
+      best = { type, match };
+    }
+  }
+
+  return best?.type;
+}
@@ -0,0 +1,395 @@
+/* eslint-disable security/detect-object-injection */
+import {
+  HttpRouteContract,
+  RouteResponse,
+  RouteResponses,
+} from '@blitzbun/contracts';
+import path from 'path';
+import { ZodType } from 'zod';
+import resolveModuleFile from './module-file';
+import { resolveRouteInputs, toJsonSchema } from './openapi';
+
+type JsonSchema = Record<string, unknown>;
+
+class ClientMethod {
+  constructor(
+    readonly name: string,
+    readonly source: string
+  ) {}
+}
+
+interface ClientTree {
+  [key: string]: ClientTree | ClientMethod;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * TypeScript type for the subset of JSON Schema Zod emits. References and
+ * keywords without a type level equivalent widen to `unknown`.
+ */
+export function toTypeScript(schema: JsonSchema): string {
+  if ('const' in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+
+  const union = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (union) return union.map((item) => `(${toTypeScript(item)})`).join(' | ');
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JsonSchema[])
+      .map((item) => `(${toTypeScript(item)})`)
+      .join(' & ');
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type
+      .map((type) => toTypeScript({ ...schema, type }))
+      .join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (Array.isArray(schema.prefixItems)) {
+        const items = (schema.prefixItems as JsonSchema[]).map(toTypeScript);
+        return `[${items.join(', ')}]`;
+      }
+      const items = schema.items as JsonSchema | undefined;
+      return items ? `Array<${toTypeScript(items)}>` : 'unknown[]';
+    }
+    case 'object':
+      return objectType(schema);
+    default:
+      return 'unknown';
+  }
+}
+
+function objectType(schema: JsonSchema): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (schema.required ?? []) as string[];
+  const extra = schema.additionalProperties;
+
+  const members = Object.entries(properties).map(
+    ([name, property]) =>
+      `${propertyKey(name)}${required.includes(name) ? '' : '?'}: ${toTypeScript(property)}`
+  );
+  if (extra && typeof extra === 'object') {
+    members.push(`[key: string]: ${toTypeScript(extra as JsonSchema)}`);
+  } else if (extra !== false && members.length === 0) {
+    return 'Record<string, unknown>';
+  }
+
+  return `{ ${members.join('; ')} }`;
+}
+
+function hasRequired(schema: JsonSchema): boolean {
+  return ((schema.required ?? []) as string[]).length > 0;
+}
+
+function successSchema(responses: RouteResponses): ZodType | undefined {
+  for (const [status, response] of Object.entries(responses)) {
+    if (!status.startsWith('2') || typeof response === 'string') continue;
+    const schema =
+      response instanceof ZodType
+        ? response
+        : (response as RouteResponse).schema;
+    if (schema) return schema;
+  }
+  return undefined;
+}
+
+class ClientWriter {
+  private transformers = new Map<string, string>();
+  private tree: ClientTree = {};
+
+  constructor(private readonly outputDir: string) {}
+
+  /**
+   * Type-only import of a transformer class, named after its file and
+   * numbered when two modules share a file name.
+   */
+  transformer(file: string): string {
+    const existing = this.transformers.get(file);
+    if (existing) return existing;
+
+    const base = path
+      .basename(file, '.ts')
+      .split(/[^A-Za-z0-9]+/)
+      .map((part) => part.charAt(0).toUpperCase() + part.substring(1))
+      .join('');
+    const taken = [...this.transformers.values()];
+    let alias = `${base}Transformer`;
+    for (let i = 2; taken.includes(alias); i++) {
+      alias = `${base}Transformer${i}`;
+    }
+
+    this.transformers.set(file, alias);
+    return alias;
+  }
+
+  responseType(route: HttpRouteContract): string {
+    const data = route.getModule();
+    const meta = data.meta ?? {};
+
+    const schema = successSchema((meta.responses ?? {}) as RouteResponses);
+    if (schema) return toTypeScript(toJsonSchema(schema, 'output'));
+
+    if (typeof meta.transformer !== 'string') return 'unknown';
+    const alias = this.transformer(
+      resolveModuleFile(
+        data.modulePath as string,
+        'transformers',
+        meta.transformer
+      )
+    );
+
+    // the envelopes BaseController responds with
+    return meta.paginated === true
+      ? `PaginatedData<Transformed<${alias}>>`
+      : `{ success: boolean; data: Transformed<${alias}> }`;
+  }
+
+  async add(name: string, route: HttpRouteContract): Promise<void> {
+    const inputs = await resolveRouteInputs(route);
+    const members: string[] = [];
+    let required = false;
+
+    const parts: Array<[string, JsonSchema[]]> = [
+      [
+        'params',
+        Object.keys(inputs.params.properties ?? {}).length > 0
+          ? [inputs.params]
+          : [],
+      ],
+      ['query', inputs.query],
+      ['body', inputs.body ? [inputs.body] : []],
+      ['headers', inputs.headers ? [inputs.headers] : []],
+    ];
+    for (const [part, schemas] of parts) {
+      if (schemas.length === 0) continue;
+
+      // a body is always sent, other parts only when a field is required
+      const optional = part !== 'body' && !schemas.some(hasRequired);
+      const type = schemas.map(toTypeScript).join(' & ');
+      members.push(`${part}${optional ? '?' : ''}: ${type}`);
+      required = required || !optional;
+    }
+
+    const input =
+      members.length > 0
+        ? `{ ${members.join('; ')} }`
+        : 'Record<string, never>';
+    const source =
+      `(input: ${input}${required ? '' : ' = {}'}, init?: RequestOptions) =>\n` +
+      `  send<${this.responseType(route)}>(options, ${JSON.stringify(route.getMethod())}, ${JSON.stringify(route.getPath())}, input, init)`;
+
+    this.insert(name.split('.'), new ClientMethod(name, source));
+  }
+
+  private insert(segments: string[], method: ClientMethod): void {
+    const conflict = new Error(
+      `Route name "${method.name}" conflicts with another route in the client.`
+    );
+    const last = segments.pop()!; // guaranteed by split('.')
+    let node = this.tree;
+
+    for (const segment of segments) {
+      const current = (node[segment] = node[segment] ?? {});
+      if (current instanceof ClientMethod) throw conflict;
+      node = current;
+    }
+
+    if (node[last]) throw conflict;
+    node[last] = method;
+  }
+
+  private renderTree(tree: ClientTree, depth: number): string {
+    const indent = '  '.repeat(depth);
+    const entries = Object.entries(tree).map(([key, value]) => {
+      const body =
+        value instanceof ClientMethod
+          ? value.source.replace(/\n/g, `\n${indent}`)
+          : this.renderTree(value, depth + 1);
+      return `${indent}${propertyKey(key)}: ${body},`;
+    });
+    return `{\n${entries.join('\n')}\n${'  '.repeat(depth - 1)}}`;
+  }
+
+  render(): string {
+    const imports = [...this.transformers].map(([file, alias]) => {
+      let specifier = path
+        .relative(this.outputDir, file)
+        .replace(/\\/g, '/')
+        .replace(/\.ts$/, '');
+      if (!specifier.startsWith('.')) specifier = `./${specifier}`;
+      return `import type ${alias} from '${specifier}';\n`;
+    });
+
+    return [
+      HEADER,
+      imports.length > 0 ? `${imports.join('')}\n` : '',
+      RUNTIME,
+      `export function createClient(options: ClientOptions) {\n  return ${this.renderTree(this.tree, 2)};\n}\n\n`,
+      'export type ApiClient = ReturnType<typeof createClient>;\n',
+    ].join('');
+  }
+}
+
+/**
+ * Source of a typed fetch client with one method per named route, nested
+ * by the dots in the route names (`users.fetch` becomes
+ * `client.users.fetch()`). Inputs come from route schemas and validators,
+ * responses from a 2xx schema in `responses` meta or from the transformer
+ * named in `transformer` meta. Transformers are imported by type only,
+ * relative to `outputDir`, so the client must live where it can see them.
+ */
+export async function generateClient(
+  routes: HttpRouteContract[],
+  outputDir: string
+): Promise<string> {
+  const writer = new ClientWriter(outputDir);
+
+  for (const route of routes) {
+    const name = route.getModule().meta?.name;
+    if (typeof name === 'string') await writer.add(name, route);
+  }
+
+  return writer.render();
+}
+
+const HEADER = `/* eslint-disable */
+// Generated by \`console client:generate\`. Do not edit by hand.
+
+`;
+
+const RUNTIME = `export interface PaginatedData<T> {
+  data: T[];
+  meta: {
+    total: number;
+    perPage: number;
+    totalPages: number;
+    currentPage: number;
+  };
+}
+
+type Transformed<T> = T extends {
+  transform(...args: never[]): Promise<infer R>;
+}
+  ? R
+  : never;
+
+type RouteInput = {
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  headers?: Record<string, unknown>;
+};
+
+export interface ClientOptions {
+  baseUrl: string;
+  headers?: HeadersInit;
+  fetch?: typeof fetch;
+}
+
+export type RequestOptions = Omit<RequestInit, 'method' | 'body'>;
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super(\`Request failed with status \${status}\`);
+  }
+}
+
+function toParam(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// mirrors HttpRouter.url(): optional segments without a value are dropped
+function buildPath(pattern: string, params: Record<string, unknown> = {}): string {
+  const segments: string[] = [];
+  for (const segment of pattern.split('/')) {
+    if (!segment) continue;
+    if (segment === '*') {
+      if (params.wild !== undefined) {
+        segments.push(toParam(params.wild).split('/').map(encodeURIComponent).join('/'));
+      }
+      continue;
+    }
+    if (segment[0] !== ':') {
+      segments.push(segment);
+      continue;
+    }
+
+    const ext = segment.indexOf('.', 1);
+    const optional = segment.indexOf('?', 1);
+    const end = optional !== -1 ? optional : ext !== -1 ? ext : segment.length;
+    const value = params[segment.substring(1, end)];
+    if (value === undefined || value === '') continue;
+
+    const suffix = ext !== -1 ? segment.substring(ext).replace('?', '') : '';
+    segments.push(encodeURIComponent(toParam(value)) + suffix);
+  }
+  return \`/\${segments.join('/')}\`;
+}
+
+function buildQuery(query: Record<string, unknown> = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) search.append(key, toParam(item));
+    }
+  }
+  const qs = search.toString();
+  return qs ? \`?\${qs}\` : '';
+}
+
+async function send<T>(
+  options: ClientOptions,
+  method: string,
+  pattern: string,
+  input: RouteInput,
+  init: RequestOptions = {}
+): Promise<T> {
+  const headers = new Headers(options.headers);
+  new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+  for (const [key, value] of Object.entries(input.headers ?? {})) {
+    if (value !== undefined) headers.set(key, toParam(value));
+  }
+  if (input.body !== undefined) headers.set('Content-Type', 'application/json');
+  if (!headers.has('Accept')) headers.set('Accept', 'application/json');
+
+  const url =
+    options.baseUrl.replace(/\\/+$/, '') +
+    buildPath(pattern, input.params) +
+    buildQuery(input.query);
+  const response = await (options.fetch ?? fetch)(url, {
+    ...init,
+    method,
+    headers,
+    body: input.body === undefined ? undefined : JSON.stringify(input.body),
+  });
+
+  const type = response.headers.get('Content-Type') ?? '';
+  const text = response.status === 204 ? '' : await response.text();
+  const body = text && type.includes('json') ? JSON.parse(text) : text || undefined;
+
+  if (!response.ok) throw new ApiError(response.status, body);
+  return body as T;
+}
+
+`;
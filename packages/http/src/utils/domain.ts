@@ -0,0 +1,44 @@
+import { HttpRouteDomain } from '@blitzbun/contracts';
+
+/**
+ * Compile a host pattern such as `{tenant}.example.com` or
+ * `api-{region}.example.com`. Each placeholder matches within a single
+ * label, and hosts are compared case-insensitively.
+ */
+export default function compileDomain(host: string): HttpRouteDomain {
+  const keys: string[] = [];
+  const source = host
+    .split('.')
+    .map((label) =>
+      label
+        .split(/\{(\w+)\}/)
+        .map((part, index) => {
+          // odd indexes are the captured placeholder names
+          if (index % 2 === 1) {
+            keys.push(part);
+            return '([^.]+)';
+          }
+          return part.replace(/[|\\{}()[\]^$+*?]/g, '\\$&');
+        })
+        .join('')
+    )
+    .join('\\.');
+
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  return { host, keys, pattern: new RegExp(`^${source}$`, 'i') };
+}
+
+/**
+ * Values captured from the host, or undefined when it doesn't match.
+ */
+export function matchDomain(
+  domain: HttpRouteDomain,
+  host: string
+): Record<string, string> | undefined {
+  const matches = domain.pattern.exec(host);
+  if (!matches) return undefined;
+
+  return Object.fromEntries(
+    domain.keys.map((key, index) => [key, matches[index + 1]])
+  );
+}
@@ -0,0 +1,64 @@
+/* eslint-disable security/detect-object-injection */
+import {
+  HttpMessage,
+  HttpRequestContract,
+  HttpResponseContract,
+  HttpStatusCode,
+  ProblemDetails,
+} from '@blitzbun/contracts';
+
+export interface ErrorResponseOptions {
+  problem?: boolean;
+  extensions?: Record<string, unknown>;
+}
+
+export function getStatusTitle(status: HttpStatusCode): string {
+  const key = HttpStatusCode[status] as keyof typeof HttpMessage | undefined;
+  return (key && HttpMessage[key]) ?? 'Error';
+}
+
+/**
+ * Build an RFC 7807 problem document. The `about:blank` type means the
+ * title is the standard reason phrase of the status code.
+ */
+export function createProblemDetails(
+  status: HttpStatusCode,
+  detail?: string,
+  instance?: string,
+  extensions: Record<string, unknown> = {}
+): ProblemDetails {
+  const title = getStatusTitle(status);
+  const problem: ProblemDetails = { type: 'about:blank', title, status };
+
+  if (detail && detail !== title) problem.detail = detail;
+  if (instance) problem.instance = instance;
+
+  // extension members never override the standard ones
+  for (const [key, value] of Object.entries(extensions)) {
+    if (!(key in problem)) problem[key] = value;
+  }
+
+  return problem;
+}
+
+/**
+ * Write an error body in the configured format: the legacy
+ * `{ code, message }` JSON shape or `application/problem+json`.
+ */
+export default function errorResponse(
+  req: HttpRequestContract,
+  res: HttpResponseContract,
+  status: HttpStatusCode,
+  message: string = getStatusTitle(status),
+  options: ErrorResponseOptions = {}
+): HttpResponseContract {
+  res.status(status);
+
+  if (!options.problem) {
+    return res.json({ code: status, message, ...options.extensions });
+  }
+
+  return res.problem(
+    createProblemDetails(status, message, req.path, options.extensions)
+  );
+}
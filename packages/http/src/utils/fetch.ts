@@ -0,0 +1,23 @@
+import { AppContext } from '@blitzbun/core';
+import { REQUEST_ID_HEADER } from './request-id';
+
+/**
+ * fetch() for calls to other services, sending the id of the request or
+ * job being handled as `X-Request-Id` so their logs can be matched with
+ * ours. An id the caller sets explicitly is left alone.
+ */
+export default function fetchWithRequestId(
+  input: string | URL | Request,
+  init: RequestInit = {}
+): Promise<Response> {
+  const requestId = AppContext.requestId();
+  if (!requestId) return fetch(input, init);
+
+  const headers = new Headers(
+    init.headers ?? (input instanceof Request ? input.headers : undefined)
+  );
+  if (!headers.has(REQUEST_ID_HEADER)) {
+    headers.set(REQUEST_ID_HEADER, requestId);
+  }
+  return fetch(input, { ...init, headers });
+}
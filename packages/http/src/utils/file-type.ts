@@ -0,0 +1,55 @@
+type Signature = Array<[offset: number, bytes: string | number[]]>;
+
+// checked in order, so more specific signatures must come first
+const SIGNATURES: Array<{ type: string; signature: Signature }> = [
+  {
+    type: 'image/png',
+    signature: [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]],
+  },
+  { type: 'image/jpeg', signature: [[0, [0xff, 0xd8, 0xff]]] },
+  { type: 'image/gif', signature: [[0, 'GIF8']] },
+  {
+    type: 'image/webp',
+    signature: [
+      [0, 'RIFF'],
+      [8, 'WEBP'],
+    ],
+  },
+  { type: 'image/avif', signature: [[4, 'ftypavif']] },
+  { type: 'image/bmp', signature: [[0, 'BM']] },
+  { type: 'image/x-icon', signature: [[0, [0x00, 0x00, 0x01, 0x00]]] },
+  { type: 'application/pdf', signature: [[0, '%PDF-']] },
+  { type: 'application/zip', signature: [[0, [0x50, 0x4b, 0x03, 0x04]]] },
+  { type: 'application/gzip', signature: [[0, [0x1f, 0x8b]]] },
+  {
+    type: 'audio/wav',
+    signature: [
+      [0, 'RIFF'],
+      [8, 'WAVE'],
+    ],
+  },
+  { type: 'audio/mpeg', signature: [[0, 'ID3']] },
+  { type: 'audio/ogg', signature: [[0, 'OggS']] },
+  { type: 'video/webm', signature: [[0, [0x1a, 0x45, 0xdf, 0xa3]]] },
+  { type: 'video/mp4', signature: [[4, 'ftyp']] },
+];
+
+/** Number of leading bytes needed to recognise any known signature. */
+export const SNIFF_LENGTH = 16;
+
+const matches = (bytes: Uint8Array, signature: Signature): boolean =>
+  signature.every(([offset, expected]) => {
+    const values =
+      typeof expected === 'string'
+        ? Array.from(expected, (char) => char.charCodeAt(0))
+        : expected;
+    return values.every((value, i) => bytes[offset + i] === value);
+  });
+
+/**
+ * Detect the MIME type of a file from its leading bytes. Returns undefined
+ * for formats without a reliable signature, such as plain text.
+ */
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  return SIGNATURES.find(({ signature }) => matches(bytes, signature))?.type;
+}
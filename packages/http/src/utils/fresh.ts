@@ -0,0 +1,41 @@
+import { HttpRequestContract, HttpResponseContract } from '@blitzbun/contracts';
+
+const stripWeak = (tag: string): string =>
+  tag.startsWith('W/') ? tag.substring(2) : tag;
+
+/**
+ * Whether the client's cached copy is still current according to the
+ * response validators. `If-None-Match` takes precedence over
+ * `If-Modified-Since`, and ETags use the weak comparison of RFC 9110.
+ */
+export default function isFresh(
+  req: HttpRequestContract,
+  res: HttpResponseContract
+): boolean {
+  const ifNoneMatch = req.getHeader('if-none-match');
+  const ifModifiedSince = req.getHeader('if-modified-since');
+  if (!ifNoneMatch && !ifModifiedSince) return false;
+
+  // an explicit request for a fresh copy always wins
+  if (
+    /(?:^|,)\s*no-cache\s*(?:,|$)/.test(req.getHeader('cache-control') ?? '')
+  ) {
+    return false;
+  }
+
+  if (ifNoneMatch) {
+    const etag = res.getHeader('ETag');
+    if (!etag) return false;
+    if (ifNoneMatch.trim() === '*') return true;
+
+    return ifNoneMatch
+      .split(',')
+      .some((tag) => stripWeak(tag.trim()) === stripWeak(etag));
+  }
+
+  const lastModified = Date.parse(res.getHeader('Last-Modified') ?? '');
+  const since = Date.parse(ifModifiedSince ?? '');
+  return (
+    !Number.isNaN(lastModified) && !Number.isNaN(since) && lastModified <= since
+  );
+}
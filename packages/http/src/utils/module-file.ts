@@ -0,0 +1,20 @@
+import path from 'path';
+
+/**
+ * Resolve a dotted reference to a file in one of a module's folders:
+ * - "payment.file" => current module, "<folder>/payment/file.ts"
+ * - "app::payment.file" => module "app", "<folder>/payment/file.ts"
+ */
+export default function resolveModuleFile(
+  modulePath: string,
+  folder: string,
+  reference: string
+): string {
+  const [moduleName, filePath] = reference.includes('::')
+    ? reference.split('::')
+    : ['', reference];
+  const parts = filePath.split('.');
+  const fileName = parts.pop()!; // guaranteed by split('.')
+
+  return path.join(modulePath, moduleName, folder, ...parts, `${fileName}.ts`);
+}
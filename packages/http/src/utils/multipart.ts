@@ -0,0 +1,281 @@
+import { RequestLimits } from '@blitzbun/contracts';
+import { FileSink } from 'bun';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import UploadedFile from '../classes/uploaded-file';
+import { BadRequestException, PayloadTooLargeException } from '../exceptions';
+import formatBytes from './format-bytes';
+
+const CRLF = Buffer.from('\r\n');
+const HEADERS_END = Buffer.from('\r\n\r\n');
+const MAX_HEADERS_SIZE = 16 * 1024;
+
+interface MultipartPart {
+  field: string;
+  type: string;
+  filename?: string;
+}
+
+export interface MultipartBody {
+  files: UploadedFile[];
+  fields: Record<string, string>;
+}
+
+export function getBoundary(contentType: string): string | undefined {
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match?.[1] ?? match?.[2];
+}
+
+function parsePartHeaders(raw: string): MultipartPart | undefined {
+  let field: string | undefined;
+  let filename: string | undefined;
+  let type = '';
+
+  for (const line of raw.split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+
+    const name = line.substring(0, colon).trim().toLowerCase();
+    const value = line.substring(colon + 1).trim();
+
+    if (name === 'content-type') {
+      type = value;
+    } else if (name === 'content-disposition') {
+      field = /\bname="([^"]*)"/i.exec(value)?.[1];
+      const encoded = /\bfilename\*=(?:UTF-8'')?([^;]+)/i.exec(value)?.[1];
+      filename = encoded
+        ? decodeURIComponent(encoded)
+        : /\bfilename="([^"]*)"/i.exec(value)?.[1];
+    }
+  }
+
+  return field === undefined ? undefined : { field, type, filename };
+}
+
+/**
+ * Incremental multipart/form-data parser. Fields are collected in memory
+ * while files are streamed to temporary files, so limits are enforced as
+ * the bytes arrive instead of after the whole body has been buffered.
+ */
+class MultipartParser {
+  private buffer: Buffer;
+  private readonly delimiter: Buffer;
+  private state: 'preamble' | 'boundary' | 'headers' | 'body' | 'done' =
+    'preamble';
+
+  private received = 0;
+  private part?: MultipartPart;
+  private partSize = 0;
+  private chunks: Buffer[] = [];
+  private sink?: FileSink;
+  private tempPath?: string;
+
+  readonly files: UploadedFile[] = [];
+  readonly fields: Record<string, string> = {};
+
+  constructor(
+    boundary: string,
+    private readonly limits: Required<RequestLimits>
+  ) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    // the first boundary has no leading CRLF, prepend one so every
+    // delimiter can be matched the same way
+    this.buffer = Buffer.from(CRLF);
+  }
+
+  get finished(): boolean {
+    return this.state === 'done';
+  }
+
+  async write(chunk: Uint8Array): Promise<void> {
+    this.received += chunk.byteLength;
+    if (this.received > this.limits.maxBodySize) {
+      throw new PayloadTooLargeException(
+        `Request body too large. Maximum size: ${formatBytes(this.limits.maxBodySize)}`
+      );
+    }
+
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    await this.process();
+  }
+
+  private async process(): Promise<void> {
+    for (;;) {
+      switch (this.state) {
+        case 'preamble': {
+          const index = this.buffer.indexOf(this.delimiter);
+          if (index === -1) {
+            this.keepTail();
+            return;
+          }
+          this.buffer = this.buffer.subarray(index + this.delimiter.length);
+          this.state = 'boundary';
+          break;
+        }
+
+        case 'boundary': {
+          if (this.buffer.length < 2) return;
+          // "--" after a delimiter marks the end of the body
+          if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+            this.state = 'done';
+            return;
+          }
+          this.state = 'headers';
+          break;
+        }
+
+        case 'headers': {
+          // the buffer still starts with the CRLF that ends the delimiter
+          const end = this.buffer.indexOf(HEADERS_END);
+          if (end === -1) {
+            if (this.buffer.length > MAX_HEADERS_SIZE) {
+              throw new BadRequestException('Multipart headers too large');
+            }
+            return;
+          }
+          const raw = this.buffer.subarray(CRLF.length, end).toString('utf8');
+          this.startPart(parsePartHeaders(raw));
+          this.buffer = this.buffer.subarray(end + HEADERS_END.length);
+          this.state = 'body';
+          break;
+        }
+
+        case 'body': {
+          const index = this.buffer.indexOf(this.delimiter);
+          if (index === -1) {
+            // hold back enough bytes to catch a delimiter split across chunks
+            const safe = this.buffer.length - this.delimiter.length + 1;
+            if (safe > 0) {
+              this.appendData(this.buffer.subarray(0, safe));
+              this.buffer = this.buffer.subarray(safe);
+            }
+            return;
+          }
+          this.appendData(this.buffer.subarray(0, index));
+          await this.endPart();
+          this.buffer = this.buffer.subarray(index + this.delimiter.length);
+          this.state = 'boundary';
+          break;
+        }
+
+        case 'done':
+          return;
+      }
+    }
+  }
+
+  private keepTail(): void {
+    const keep = this.delimiter.length - 1;
+    if (this.buffer.length > keep) {
+      this.buffer = this.buffer.subarray(this.buffer.length - keep);
+    }
+  }
+
+  private startPart(part: MultipartPart | undefined): void {
+    this.partSize = 0;
+    this.chunks = [];
+    // parts without a name, and file inputs left empty, are ignored
+    this.part = part?.filename === '' ? undefined : part;
+
+    if (this.part?.filename === undefined) return;
+
+    if (this.files.length >= this.limits.maxFiles) {
+      throw new PayloadTooLargeException(
+        `Too many files. Maximum: ${this.limits.maxFiles}`
+      );
+    }
+
+    this.tempPath = join(tmpdir(), `blitzbun-upload-${crypto.randomUUID()}`);
+    this.sink = Bun.file(this.tempPath).writer();
+  }
+
+  private appendData(data: Buffer): void {
+    if (!this.part || data.length === 0) return;
+    this.partSize += data.length;
+
+    if (!this.sink) {
+      this.chunks.push(Buffer.from(data));
+      return;
+    }
+
+    if (this.partSize > this.limits.maxFileSize) {
+      throw new PayloadTooLargeException(
+        `File too large: ${this.part.filename}. Maximum size: ${formatBytes(this.limits.maxFileSize)}`
+      );
+    }
+    this.sink.write(data);
+  }
+
+  private async endPart(): Promise<void> {
+    const part = this.part;
+    this.part = undefined;
+    if (!part) return;
+
+    if (!this.sink || !this.tempPath) {
+      this.fields[part.field] = Buffer.concat(this.chunks).toString('utf8');
+      this.chunks = [];
+      return;
+    }
+
+    await this.sink.end();
+    this.files.push(
+      new UploadedFile(
+        part.field,
+        part.filename!,
+        part.type,
+        this.partSize,
+        this.tempPath
+      )
+    );
+    this.sink = undefined;
+    this.tempPath = undefined;
+  }
+
+  /**
+   * Remove every temporary file written so far, including a partial one.
+   */
+  async abort(): Promise<void> {
+    if (this.sink) {
+      await this.sink.end();
+      this.sink = undefined;
+    }
+    if (this.tempPath) {
+      await rm(this.tempPath, { force: true });
+    }
+    await Promise.all(this.files.map((file) => file.delete()));
+  }
+}
+
+export default async function parseMultipart(
+  nativeRequest: Request,
+  limits: Required<RequestLimits>
+): Promise<MultipartBody> {
+  const boundary = getBoundary(nativeRequest.headers.get('content-type') ?? '');
+  if (!boundary) {
+    throw new BadRequestException('Missing multipart boundary');
+  }
+
+  const parser = new MultipartParser(boundary, limits);
+  if (!nativeRequest.body) return { files: [], fields: {} };
+
+  const reader = nativeRequest.body.getReader();
+
+  try {
+    while (!parser.finished) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      await parser.write(value);
+    }
+
+    if (!parser.finished) {
+      throw new BadRequestException('Unexpected end of multipart body');
+    }
+
+    return { files: parser.files, fields: parser.fields };
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    await parser.abort();
+    throw error;
+  }
+}
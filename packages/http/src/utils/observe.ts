@@ -0,0 +1,36 @@
+/**
+ * Promise whose `then()` reports that someone consumed its outcome, which
+ * awaiting, returning or chaining on it all do.
+ */
+class ObservedPromise<T> extends Promise<T> {
+  onObserved: () => void = () => undefined;
+
+  // promises derived with then() or catch() are plain ones
+  static get [Symbol.species]() {
+    return Promise;
+  }
+
+  then<A = T, B = never>(
+    onFulfilled?: ((value: T) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    this.onObserved();
+    return super.then(onFulfilled, onRejected);
+  }
+}
+
+/**
+ * Mirror `promise`, calling `onObserved` once the copy is awaited or
+ * chained on. A copy nobody observes never reports an unhandled rejection.
+ */
+export default function observe<T>(
+  promise: Promise<T>,
+  onObserved: () => void
+): Promise<T> {
+  const observed = new ObservedPromise<T>((resolve, reject) => {
+    promise.then(resolve, reject);
+  });
+  observed.onObserved = onObserved;
+  Promise.prototype.then.call(observed, undefined, () => undefined);
+  return observed;
+}
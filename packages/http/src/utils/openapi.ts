@@ -0,0 +1,304 @@
+/* eslint-disable security/detect-object-injection */
+import {
+  HttpMethod,
+  HttpMiddleware,
+  HttpRouteContract,
+  HttpRouterContract,
+  OpenApiOptions,
+  RouteResponse,
+  RouteResponses,
+  RouteSchemas,
+} from '@blitzbun/contracts';
+import { toJSONSchema, ZodType } from 'zod';
+import Validator from '../classes/validator';
+
+type JsonSchema = Record<string, unknown>;
+type ParameterLocation = 'path' | 'query' | 'header';
+
+interface OpenApiParameter {
+  name: string;
+  in: ParameterLocation;
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface OpenApiMediaType {
+  schema?: JsonSchema;
+}
+
+interface OpenApiOperation {
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+  };
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, OpenApiMediaType> }
+  >;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+// request bodies are not read for these methods
+const BODYLESS = [HttpMethod.GET, HttpMethod.HEAD, HttpMethod.DELETE];
+
+/**
+ * Zod emits JSON Schema 2020-12, which OpenAPI 3.1 embeds as is once the
+ * `$schema` keyword is dropped. Dates travel as ISO strings, and other
+ * types without a JSON representation are left unconstrained instead of
+ * failing the document.
+ */
+export function toJsonSchema(
+  schema: ZodType,
+  io: 'input' | 'output'
+): JsonSchema {
+  const json = toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+    override: (ctx) => {
+      if (ctx.zodSchema._zod.def.type === 'date') {
+        ctx.jsonSchema.type = 'string';
+        ctx.jsonSchema.format = 'date-time';
+      }
+    },
+  });
+  delete json.$schema;
+  return json as JsonSchema;
+}
+
+// the name routes expose the wildcard capture under
+const WILDCARD = 'wild';
+
+/**
+ * `/users/:id?` becomes `/users/{id}` and a wildcard becomes `{wild}`.
+ * OpenAPI has no optional path parameters, so those are listed as required.
+ */
+function toOpenApiPath(path: string): string {
+  return path
+    .split('/')
+    .map((segment) => {
+      if (segment === '*') return `{${WILDCARD}}`;
+      if (segment[0] !== ':') return segment;
+
+      const [key, ...ext] = segment.substring(1).replace('?', '').split('.');
+      return `{${key}}` + ext.map((part) => `.${part}`).join('');
+    })
+    .join('/');
+}
+
+function toParameters(
+  json: JsonSchema,
+  location: ParameterLocation
+): OpenApiParameter[] {
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (json.required ?? []) as string[];
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    ...(typeof property.description === 'string'
+      ? { description: property.description }
+      : {}),
+    schema: property,
+  }));
+}
+
+export interface RouteInputs {
+  params: JsonSchema;
+  query: JsonSchema[];
+  body?: JsonSchema;
+  headers?: JsonSchema;
+}
+
+/**
+ * JSON schemas for what a route accepts, from its `schema` meta and the
+ * validator file named by its `validator` meta. Validators see req.all(),
+ * which is the query string for bodyless methods and the body otherwise.
+ * Route parameters without a schema are plain strings.
+ */
+export async function resolveRouteInputs(
+  route: HttpRouteContract
+): Promise<RouteInputs> {
+  const data = route.getModule();
+  const meta = data.meta ?? {};
+  const schemas = (meta.schema ?? {}) as RouteSchemas;
+  const keys = data.keys ?? [];
+  const optional = route
+    .getPath()
+    .split('/')
+    .filter((segment) => segment[0] === ':' && segment.includes('?'))
+    .map((segment) => segment.substring(1).split(/[?.]/)[0]);
+
+  const inputs: RouteInputs = {
+    params: schemas.params
+      ? toJsonSchema(schemas.params, 'input')
+      : {
+          type: 'object',
+          properties: Object.fromEntries(
+            keys.map((key) => [key, { type: 'string' }])
+          ),
+          required: keys.filter((key) => !optional.includes(key)),
+        },
+    query: schemas.query ? [toJsonSchema(schemas.query, 'input')] : [],
+    body: schemas.body ? toJsonSchema(schemas.body, 'input') : undefined,
+    headers: schemas.headers
+      ? toJsonSchema(schemas.headers, 'input')
+      : undefined,
+  };
+
+  if (typeof meta.validator === 'string') {
+    const schema = toJsonSchema(
+      await new Validator(meta.validator, data).getSchema(),
+      'input'
+    );
+    if (BODYLESS.includes(route.getMethod())) inputs.query.push(schema);
+    else inputs.body = inputs.body ?? schema;
+  }
+
+  return inputs;
+}
+
+function toResponse(
+  response: string | ZodType | RouteResponse
+): OpenApiOperation['responses'][string] {
+  if (typeof response === 'string') return { description: response };
+
+  const {
+    description = 'Response',
+    contentType,
+    schema,
+  } = response instanceof ZodType ? { schema: response } : response;
+
+  return {
+    description,
+    ...(schema
+      ? {
+          content: {
+            [contentType ?? 'application/json']: {
+              schema: toJsonSchema(schema, 'output'),
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+async function toOperation(
+  route: HttpRouteContract
+): Promise<OpenApiOperation | undefined> {
+  const data = route.getModule();
+  const meta = data.meta ?? {};
+  if (meta.openapi === false) return undefined;
+
+  const schemas = (meta.schema ?? {}) as RouteSchemas;
+  const inputs = await resolveRouteInputs(route);
+  const parameters = [
+    ...toParameters(inputs.params, 'path'),
+    ...inputs.query.flatMap((query) => toParameters(query, 'query')),
+    ...(inputs.headers ? toParameters(inputs.headers, 'header') : []),
+  ];
+  const body = inputs.body;
+
+  const responses: OpenApiOperation['responses'] = {};
+  for (const [status, response] of Object.entries(
+    (meta.responses ?? { 200: 'OK' }) as RouteResponses
+  )) {
+    responses[status] = toResponse(response);
+  }
+  const validated =
+    Object.keys(schemas).length > 0 || typeof meta.validator === 'string';
+  if (validated && !responses['400']) {
+    responses['400'] = { description: 'Validation failed' };
+  }
+
+  const name = typeof meta.name === 'string' ? meta.name : undefined;
+  const tags =
+    (meta.tags as string[] | undefined) ??
+    (data.module ? [data.module] : undefined);
+
+  return {
+    ...(typeof meta.summary === 'string' ? { summary: meta.summary } : {}),
+    ...(typeof meta.description === 'string'
+      ? { description: meta.description }
+      : {}),
+    ...((meta.operationId ?? name)
+      ? { operationId: (meta.operationId as string | undefined) ?? name }
+      : {}),
+    ...(tags ? { tags } : {}),
+    ...(meta.deprecated === true ? { deprecated: true } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: body } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from registered routes, using their
+ * `schema` and `validator` meta for inputs and `summary`, `description`,
+ * `tags`, `deprecated`, `operationId` and `responses` for the rest.
+ * Routes with `openapi: false` in their meta are left out.
+ */
+export async function generateOpenApiDocument(
+  routes: HttpRouteContract[],
+  options: OpenApiOptions = {}
+): Promise<OpenApiDocument> {
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const route of routes) {
+    const operation = await toOperation(route);
+    if (!operation) continue;
+
+    const path = toOpenApiPath(route.getPath());
+    paths[path] = paths[path] ?? {};
+    paths[path][route.getMethod().toLowerCase()] = operation;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: options.info ?? { title: 'API', version: '1.0.0' },
+    ...(options.servers?.length ? { servers: options.servers } : {}),
+    paths,
+  };
+}
+
+/**
+ * Route handler serving the document. Routes do not change after boot,
+ * so it is generated on the first request and reused afterwards.
+ */
+export function createOpenApiHandler(
+  router: HttpRouterContract,
+  options: OpenApiOptions = {}
+): HttpMiddleware {
+  let document: Promise<OpenApiDocument> | undefined;
+
+  return async (_req, res) => {
+    document = document ?? generateOpenApiDocument(router.getRoutes(), options);
+    try {
+      return res.json(await document);
+    } catch (error) {
+      // retry on the next request instead of caching the failure
+      document = undefined;
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,57 @@
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a `Range` header against a resource size. Returns undefined when
+ * the header should be ignored (missing, not bytes, or several ranges) and
+ * null when no requested byte is inside the resource.
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number
+): ByteRange | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header?.trim() ?? '');
+  if (!match) return undefined;
+
+  const [, first, last] = match;
+  if (first === '' && last === '') return undefined;
+
+  if (first === '') {
+    // suffix range: the last N bytes
+    const length = Number(last);
+    if (length === 0 || size === 0) return null;
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = Number(first);
+  const end = last === '' ? size - 1 : Math.min(Number(last), size - 1);
+  if (start >= size || start > end) return null;
+
+  return { start, end };
+}
+
+/**
+ * Whether a request's `If-Range` validator still matches the resource, in
+ * which case its `Range` header may be honoured. ETags are compared
+ * strongly, so a weak tag on either side never matches.
+ */
+export function isRangeFresh(
+  ifRange: string | undefined,
+  etag: string,
+  lastModified: Date
+): boolean {
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return (
+      !ifRange.startsWith('W/') && !etag.startsWith('W/') && ifRange === etag
+    );
+  }
+
+  const date = Date.parse(ifRange);
+  return (
+    !Number.isNaN(date) &&
+    Math.floor(lastModified.getTime() / 1000) <= Math.floor(date / 1000)
+  );
+}
@@ -0,0 +1,14 @@
+import { v4 as uuidv4 } from 'uuid';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// ids from upstream proxies are kept only when they are short and plain
+const VALID_ID = /^[\w\-.:@/+=]{1,200}$/;
+
+/**
+ * The request id sent by the client or a proxy in front of the app, or a
+ * fresh uuid when there is none or it looks unsafe to log.
+ */
+export default function resolveRequestId(header: string | null): string {
+  return header && VALID_ID.test(header) ? header : uuidv4();
+}
@@ -1,31 +1,61 @@
 /* eslint-disable security/detect-object-injection */
-import { HttpRequestContract, HttpRouteContract } from '@blitzbun/contracts';
+import {
+  HttpRequestContract,
+  HttpRouteContract,
+  RequestLimits,
+  UploadedFileContract,
+} from '@blitzbun/contracts';
 import { HttpRequest } from '../classes';
+import { HttpException, PayloadTooLargeException } from '../exceptions';
+import { matchDomain } from './domain';
+import formatBytes from './format-bytes';
+import parseMultipart from './multipart';
 
-export interface RequestLimits {
-  maxBodySize?: number;
-  maxFileSize?: number;
-  maxFiles?: number;
-}
+export type { RequestLimits };
 
-const DEFAULT_LIMITS: RequestLimits = {
+const DEFAULT_LIMITS: Required<RequestLimits> = {
   maxBodySize: 1024 * 1024 * 10, // 10MB
   maxFileSize: 1024 * 1024 * 5, // 5MB per file
   maxFiles: 10,
 };
 
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+/**
+ * Buffer the request body, enforcing the size limit while reading so that
+ * chunked requests without a Content-Length can't get past it.
+ */
+async function readBody(
+  nativeRequest: Request,
+  maxBodySize: number
+): Promise<Response> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  if (nativeRequest.body) {
+    const reader = nativeRequest.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBodySize) {
+        await reader.cancel();
+        throw new PayloadTooLargeException(
+          `Request body too large. Maximum size: ${formatBytes(maxBodySize)}`
+        );
+      }
+      chunks.push(value);
+    }
+  }
+
+  return new Response(Buffer.concat(chunks), {
+    headers: nativeRequest.headers,
+  });
 }
 
 export default async function createHttpRequest(
   nativeRequest: Request,
   route: HttpRouteContract,
-  limits: RequestLimits = {}
+  limits: RequestLimits = {},
+  host?: string
 ): Promise<HttpRequestContract> {
   const config = { ...DEFAULT_LIMITS, ...limits };
   const routeData = route?.getModule();
@@ -38,67 +68,44 @@ export default async function createHttpRequest(
 
   // Check content length limit
   if (contentLength > config.maxBodySize!) {
-    throw new Error(
+    throw new PayloadTooLargeException(
       `Request body too large. Maximum size: ${formatBytes(config.maxBodySize!)}, received: ${formatBytes(contentLength)}`
     );
   }
 
   let parsedBody: unknown;
+  let files: UploadedFileContract[] = [];
+  const body = () => readBody(nativeRequest, config.maxBodySize!);
 
   try {
     if (type.includes('application/json')) {
-      parsedBody = await nativeRequest.json();
+      parsedBody = await (await body()).json();
     } else if (type.includes('application/x-www-form-urlencoded')) {
-      const formData = await nativeRequest.formData();
+      const formData = await (await body()).formData();
       parsedBody = Object.fromEntries(formData.entries());
     } else if (type.includes('text/plain')) {
-      parsedBody = await nativeRequest.text();
+      parsedBody = await (await body()).text();
     } else if (type.includes('multipart/form-data')) {
-      const formData = await nativeRequest.formData();
-      const files: File[] = [];
-      const data: Record<string, string | File> = {};
-
-      for (const [key, value] of formData.entries()) {
-        if (
-          typeof value === 'object' &&
-          value !== null &&
-          'size' in value &&
-          'name' in value
-        ) {
-          const file = value as File;
-          files.push(file);
-
-          // Check individual file size
-          if (file.size > config.maxFileSize!) {
-            throw new Error(
-              `File too large: ${file.name}. Maximum size: ${formatBytes(config.maxFileSize!)}, received: ${formatBytes(file.size)}`
-            );
-          }
-        }
-        data[key] = value;
-      }
-
-      // Check file count limit
-      if (files.length > config.maxFiles!) {
-        throw new Error(
-          `Too many files. Maximum: ${config.maxFiles}, received: ${files.length}`
-        );
-      }
-
-      parsedBody = data;
+      const multipart = await parseMultipart(nativeRequest, config);
+      parsedBody = multipart.fields;
+      files = multipart.files;
     } else if (type.includes('application/octet-stream')) {
-      parsedBody = Buffer.from(await nativeRequest.arrayBuffer());
+      parsedBody = Buffer.from(await (await body()).arrayBuffer());
     } else {
       parsedBody = {};
     }
   } catch (error) {
-    if (error instanceof Error && error.message.includes('too large')) {
+    if (error instanceof HttpException) {
       throw error; // Re-throw size limit errors
     }
     parsedBody = {};
   }
 
-  const routeParams: Record<string, string> = {};
+  // path params win over host params of the same name
+  const routeParams: Record<string, string> =
+    routeData.domain && host !== undefined
+      ? (matchDomain(routeData.domain, host) ?? {})
+      : {};
   const { pathname } = new URL(nativeRequest.url);
 
   if (
@@ -114,7 +121,7 @@ export default async function createHttpRequest(
     }
   }
 
-  return new HttpRequest(parsedBody, nativeRequest, routeData).setParams(
-    routeParams
-  );
+  return new HttpRequest(parsedBody, nativeRequest, routeData)
+    .setParams(routeParams)
+    .setFiles(files);
 }
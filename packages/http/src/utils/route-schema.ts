@@ -0,0 +1,84 @@
+/* eslint-disable security/detect-object-injection */
+import {
+  HttpMiddleware,
+  HttpRequestContract,
+  RouteSchemas,
+  ValidatedInput,
+  ValidationError,
+} from '@blitzbun/contracts';
+import { ValidationException } from '../exceptions';
+
+const PARTS = ['params', 'query', 'body', 'headers'] as const;
+
+/**
+ * Query string as an object, keeping repeated keys (`?tag=a&tag=b`) as
+ * arrays so schemas can declare them with `z.array()`.
+ */
+function parseQuery(url: string): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+
+  for (const [key, value] of new URL(url).searchParams) {
+    const current = query[key];
+    if (current === undefined) query[key] = value;
+    else if (Array.isArray(current)) current.push(value);
+    else query[key] = [current, value];
+  }
+
+  return query;
+}
+
+function routeInput(
+  req: HttpRequestContract,
+  keys: string[]
+): Record<(typeof PARTS)[number], unknown> {
+  const params: Record<string, string> = {};
+  for (const key of keys) {
+    const value = req.param<string>(key);
+    if (value !== undefined) params[key] = value;
+  }
+
+  return {
+    params,
+    query: parseQuery(req.getUrl()),
+    body: req.getBody(),
+    headers: Object.fromEntries(req.headers.entries()),
+  };
+}
+
+/**
+ * Validate the parts of the request that the route declared schemas for.
+ * Every part is checked so the client gets all errors at once, with fields
+ * prefixed by the part they belong to (`query.page`).
+ */
+export default function createSchemaMiddleware(
+  schemas: RouteSchemas,
+  keys: string[] = []
+): HttpMiddleware {
+  return async (req, _res, next) => {
+    const input = routeInput(req, keys);
+    const validated: ValidatedInput = {};
+    const errors: ValidationError[] = [];
+
+    for (const part of PARTS) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = await schema.safeParseAsync(input[part]);
+      if (result.success) {
+        validated[part] = result.data;
+      } else {
+        errors.push(
+          ...result.error.issues.map((issue) => ({
+            field: [part, ...issue.path.map(String)].join('.'),
+            message: issue.message,
+          }))
+        );
+      }
+    }
+
+    if (errors.length > 0) throw new ValidationException(errors);
+
+    req.setValidated(validated);
+    await next();
+  };
+}
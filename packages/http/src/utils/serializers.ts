@@ -0,0 +1,79 @@
+import { ResponseSerializer } from '@blitzbun/contracts';
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+  // keep spreadsheets from evaluating user supplied text as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xmlName(key: string): string {
+  const name = key.replace(/[^\w.-]/g, '_');
+  return /^[a-z_]/i.test(name) ? name : `_${name}`;
+}
+
+function xmlElement(name: string, value: unknown): string {
+  if (value === null || value === undefined) return `<${name}/>`;
+
+  let content: string;
+  if (Array.isArray(value)) {
+    content = value.map((item) => xmlElement('item', item)).join('');
+  } else if (value instanceof Date) {
+    content = value.toISOString();
+  } else if (typeof value === 'object') {
+    content = Object.entries(value)
+      .map(([key, item]) => xmlElement(xmlName(key), item))
+      .join('');
+  } else {
+    content = Bun.escapeHTML(String(value));
+  }
+
+  return `<${name}>${content}</${name}>`;
+}
+
+export const jsonSerializer: ResponseSerializer = {
+  type: 'application/json',
+  serialize: (data) => JSON.stringify(data),
+};
+
+/**
+ * One row per item with the union of their keys as the header. Nested
+ * values are written as JSON.
+ */
+export const csvSerializer: ResponseSerializer = {
+  type: 'text/csv; charset=utf-8',
+  serialize(data) {
+    const rows = (Array.isArray(data) ? data : [data]).map(
+      (row): Record<string, unknown> =>
+        row !== null && typeof row === 'object'
+          ? (row as Record<string, unknown>)
+          : { value: row }
+    );
+    if (rows.length === 0) return '';
+
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const lines = [
+      columns.map(csvCell).join(','),
+      // eslint-disable-next-line security/detect-object-injection
+      ...rows.map((row) => columns.map((key) => csvCell(row[key])).join(',')),
+    ];
+    return `${lines.join('\r\n')}\r\n`;
+  },
+};
+
+export const xmlSerializer: ResponseSerializer = {
+  type: 'application/xml; charset=utf-8',
+  serialize: (data) =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n${xmlElement('response', data)}`,
+};
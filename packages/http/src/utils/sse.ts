@@ -0,0 +1,105 @@
+import {
+  ServerSentEventOptions,
+  ServerSentEventSender,
+  ServerSentEventStreamOptions,
+} from '@blitzbun/contracts';
+import { AppContext } from '@blitzbun/core';
+
+// Bun closes connections after 10 seconds without traffic by default, so
+// heartbeats must be sent more often than that
+const DEFAULT_HEARTBEAT = 5000;
+
+function formatEvent(data: unknown, options: ServerSentEventOptions): string {
+  let message = '';
+  if (options.id !== undefined) message += `id: ${options.id}\n`;
+  if (options.event) message += `event: ${options.event}\n`;
+  if (options.retry !== undefined) message += `retry: ${options.retry}\n`;
+
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  for (const line of payload.split(/\r\n|\r|\n/)) {
+    message += `data: ${line}\n`;
+  }
+  return `${message}\n`;
+}
+
+/**
+ * Build a `text/event-stream` body driven by the given handler. The stream
+ * is closed when the handler settles, and the sender's signal is aborted
+ * as soon as the client goes away.
+ */
+export default function createEventStream(
+  handler: (send: ServerSentEventSender) => void | Promise<void>,
+  options: ServerSentEventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let stream: ReadableStreamDefaultController<Uint8Array>;
+
+  const write = (chunk: string): boolean => {
+    if (controller.signal.aborted) return false;
+    try {
+      stream.enqueue(encoder.encode(chunk));
+      return true;
+    } catch {
+      close();
+      return false;
+    }
+  };
+
+  const close = (): void => {
+    if (controller.signal.aborted) return;
+    clearInterval(heartbeat);
+    controller.abort();
+    try {
+      stream.close();
+    } catch {
+      // already closed by the client
+    }
+  };
+
+  const send = Object.assign(
+    (data: unknown, eventOptions: ServerSentEventOptions = {}) =>
+      write(formatEvent(data, eventOptions)),
+    {
+      close,
+      signal: controller.signal,
+      comment: (text: string) => write(`: ${text}\n\n`),
+    }
+  );
+  Object.defineProperty(send, 'closed', {
+    get: () => controller.signal.aborted,
+  });
+
+  return new ReadableStream<Uint8Array>({
+    start(streamController) {
+      stream = streamController;
+
+      if (options.retry !== undefined) write(`retry: ${options.retry}\n\n`);
+
+      const interval = options.heartbeat ?? DEFAULT_HEARTBEAT;
+      if (interval > 0) {
+        heartbeat = setInterval(() => send.comment('heartbeat'), interval);
+      }
+
+      // the handler runs inside the request's context, so the scoped
+      // container is still available once the response has been returned
+      Promise.resolve()
+        .then(() => handler(send as ServerSentEventSender))
+        .catch((error: Error) => {
+          AppContext.get()
+            .resolve('logger')
+            .error('Event stream handler failed', {
+              error: error.message,
+              stack: error.stack,
+            });
+        })
+        .finally(close);
+    },
+    cancel() {
+      // the client disconnected
+      clearInterval(heartbeat);
+      controller.abort();
+    },
+  });
+}
@@ -0,0 +1,61 @@
+/* eslint-disable security/detect-object-injection */
+import { TrustProxyOption } from '@blitzbun/contracts';
+import { BlockList, isIP } from 'node:net';
+
+export type TrustProxyFn = (address: string, hop: number) => boolean;
+
+const PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.1/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+const ipType = (address: string): 'ipv4' | 'ipv6' | undefined => {
+  const version = isIP(address);
+  if (version === 4) return 'ipv4';
+  if (version === 6) return 'ipv6';
+  return undefined;
+};
+
+/**
+ * Turn the `trustProxy` option into a predicate telling whether the hop at
+ * `address`, counted from this server, may forward client information.
+ * Strings coming from the environment are accepted as well, so `"true"`,
+ * `"2"` and `"loopback, 10.0.0.0/8"` all work.
+ */
+export default function compileTrust(
+  option: TrustProxyOption | undefined
+): TrustProxyFn {
+  if (typeof option === 'string') {
+    const value = option.trim();
+    if (value === '' || value === 'false') return () => false;
+    if (value === 'true') return () => true;
+    if (/^\d+$/.test(value)) return compileTrust(parseInt(value, 10));
+  }
+
+  if (option === true) return () => true;
+  if (!option) return () => false;
+  if (typeof option === 'number') return (_address, hop) => hop < option;
+
+  const blocks = new BlockList();
+  const entries = typeof option === 'string' ? option.split(',') : option;
+
+  for (const entry of entries.map((item) => item.trim()).filter(Boolean)) {
+    for (const range of PRESETS[entry] ?? [entry]) {
+      const [address, prefix] = range.split('/');
+      const type = ipType(address);
+      if (!type) throw new Error(`Invalid trusted proxy address [${range}].`);
+
+      if (prefix === undefined) {
+        blocks.addAddress(address, type);
+      } else {
+        blocks.addSubnet(address, parseInt(prefix, 10), type);
+      }
+    }
+  }
+
+  return (address) => {
+    const type = ipType(address);
+    return type !== undefined && blocks.check(address, type);
+  };
+}
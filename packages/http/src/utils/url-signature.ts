@@ -0,0 +1,54 @@
+import { AppContext, CryptoHelper } from '@blitzbun/core';
+
+export type SignatureStatus = 'valid' | 'invalid' | 'expired';
+
+/**
+ * Signed URLs carry an HMAC of their path and query string, keyed with
+ * `app.key`. Temporary URLs add an `expires` unix timestamp that is part of
+ * the signed payload, so it cannot be changed without breaking the signature.
+ */
+function getSigningKey(): string {
+  const configService = AppContext.get().resolve('config');
+  const key = configService.get<string>('app.key', '');
+  if (!key) {
+    throw new Error('Signed URLs require an "app.key" config value');
+  }
+  return key;
+}
+
+export function signUrl(path: string, expiresIn?: number): string {
+  const url = new URL(path, 'http://localhost');
+  if (expiresIn !== undefined) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    url.searchParams.set('expires', String(expires));
+  }
+
+  url.searchParams.set(
+    'signature',
+    CryptoHelper.urlSignature(url, getSigningKey())
+  );
+  // URLs of domain routes are absolute and keep their host
+  return path.startsWith('/') ? `${url.pathname}${url.search}` : url.href;
+}
+
+export function verifyUrl(href: string): SignatureStatus {
+  const url = new URL(href);
+  const signature = url.searchParams.get('signature');
+
+  if (
+    !signature ||
+    !CryptoHelper.safeCompare(
+      signature,
+      CryptoHelper.urlSignature(url, getSigningKey())
+    )
+  ) {
+    return 'invalid';
+  }
+
+  const expires = url.searchParams.get('expires');
+  if (expires !== null && Number(expires) < Math.floor(Date.now() / 1000)) {
+    return 'expired';
+  }
+
+  return 'valid';
+}
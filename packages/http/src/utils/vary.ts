@@ -0,0 +1,15 @@
+/**
+ * Add a header name to Vary without duplicating it or narrowing `*`.
+ */
+export default function appendVary(headers: Headers, name: string): void {
+  const vary = headers.get('Vary');
+  if (!vary) {
+    headers.set('Vary', name);
+    return;
+  }
+
+  const names = vary.split(',').map((value) => value.trim().toLowerCase());
+  if (!names.includes('*') && !names.includes(name.toLowerCase())) {
+    headers.set('Vary', `${vary}, ${name}`);
+  }
+}
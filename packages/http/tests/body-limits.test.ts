@@ -0,0 +1,96 @@
+import { HttpMiddleware } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './helpers';
+
+// a body without Content-Length, sent in chunks of `size` bytes
+function chunked(chunks: number, size: number): RequestInit {
+  let sent = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent++ === chunks) return controller.close();
+      controller.enqueue(new Uint8Array(size).fill(97));
+    },
+  });
+  return {
+    method: 'POST',
+    body,
+    headers: { 'Content-Type': 'text/plain' },
+    duplex: 'half',
+  } as RequestInit;
+}
+
+function createServer() {
+  const handled: string[] = [];
+  const echo: HttpMiddleware = async (req, res) => {
+    handled.push(new URL(req.getUrl()).pathname);
+    return res.json({ body: req.getBody() });
+  };
+
+  const context = createTestServer(
+    (router) => {
+      router.post('/small', echo);
+      router.post('/large', echo, { limits: { maxBodySize: 1024 } });
+      router.group({ limits: { maxBodySize: 64 } }, () => {
+        router.post('/grouped', echo);
+        router.post('/grouped/raised', echo, { limits: { maxBodySize: 128 } });
+      });
+    },
+    { config: { 'app.limits': { maxBodySize: 16 } } }
+  );
+  return { ...context, handled };
+}
+
+const text = (body: string): RequestInit => ({
+  method: 'POST',
+  body,
+  headers: { 'Content-Type': 'text/plain' },
+});
+
+describe('request body limits', () => {
+  test('accepts bodies within the configured limit', async () => {
+    const { request } = createServer();
+    const response = await request('/small', text('a'.repeat(16)));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ body: 'a'.repeat(16) });
+  });
+
+  test('rejects a Content-Length over the limit before the handler', async () => {
+    const { request, handled } = createServer();
+    const response = await request('/small', text('a'.repeat(17)));
+
+    expect(response.status).toBe(413);
+    expect(handled).toEqual([]);
+  });
+
+  test('rejects chunked bodies once they grow past the limit', async () => {
+    const { request, handled } = createServer();
+    const response = await request('/small', chunked(4, 8));
+
+    expect(response.status).toBe(413);
+    expect(handled).toEqual([]);
+  });
+
+  test('accepts chunked bodies within the limit', async () => {
+    const { request } = createServer();
+
+    expect((await request('/small', chunked(2, 8))).status).toBe(200);
+  });
+
+  test('lets route limits override the global config', async () => {
+    const { request } = createServer();
+
+    expect((await request('/large', text('a'.repeat(1024)))).status).toBe(200);
+    expect((await request('/large', text('a'.repeat(1025)))).status).toBe(413);
+  });
+
+  test('merges route limits over group limits', async () => {
+    const { request } = createServer();
+
+    expect((await request('/grouped', text('a'.repeat(64)))).status).toBe(200);
+    expect((await request('/grouped', text('a'.repeat(65)))).status).toBe(413);
+    expect(
+      (await request('/grouped/raised', text('a'.repeat(128)))).status
+    ).toBe(200);
+  });
+});
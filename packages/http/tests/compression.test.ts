@@ -0,0 +1,129 @@
+import { CompressionEncoding, CompressionOptions } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import zlib from 'node:zlib';
+import createCompressionMiddleware, {
+  isCompressible,
+  negotiateEncoding,
+} from '../src/middlewares/compression';
+import { createTestServer } from './helpers';
+
+const LARGE = 'a'.repeat(2048);
+
+function createServer(options: CompressionOptions = {}) {
+  const context = createTestServer((router) => {
+    router.get('/large', async (_req, res) => res.text(LARGE));
+    router.get('/small', async (_req, res) => res.text('tiny'));
+    router.get('/image', async (_req, res) =>
+      res.text(LARGE).header('Content-Type', 'image/png')
+    );
+    router.get('/strong', async (_req, res) =>
+      res.etag('"v1"', false).text(LARGE)
+    );
+    router.get('/no-transform', async (_req, res) =>
+      res.header('Cache-Control', 'no-transform').text(LARGE)
+    );
+    router.get('/stream', async (_req, res) =>
+      res.stream(
+        (async function* () {
+          yield 'first,';
+          yield 'second';
+        })(),
+        'text/plain'
+      )
+    );
+    router.get('/failing', async () => {
+      throw new Error(LARGE);
+    });
+  });
+  context.server.use(createCompressionMiddleware(options));
+  return context;
+}
+
+const gzip = { headers: { 'Accept-Encoding': 'gzip' } };
+
+const gunzip = async (response: Response) =>
+  zlib.gunzipSync(Buffer.from(await response.arrayBuffer())).toString();
+
+describe('negotiateEncoding', () => {
+  test('picks the highest quality, then the server preference', () => {
+    const encodings: CompressionEncoding[] = ['br', 'gzip'];
+
+    expect(negotiateEncoding('gzip, br', encodings)).toBe('br');
+    expect(negotiateEncoding('gzip, br;q=0.5', encodings)).toBe('gzip');
+    expect(negotiateEncoding('*', encodings)).toBe('br');
+    expect(negotiateEncoding('br;q=0, identity', encodings)).toBeUndefined();
+    expect(negotiateEncoding('', encodings)).toBeUndefined();
+  });
+});
+
+describe('isCompressible', () => {
+  test('accepts text based types only', () => {
+    expect(isCompressible('text/html; charset=utf-8')).toBe(true);
+    expect(isCompressible('application/problem+json')).toBe(true);
+    expect(isCompressible('image/svg+xml')).toBe(true);
+    expect(isCompressible('image/png')).toBe(false);
+    expect(isCompressible('text/event-stream')).toBe(false);
+  });
+});
+
+describe('response compression', () => {
+  test('compresses bodies over the threshold', async () => {
+    const { request } = createServer();
+    const response = await request('/large', gzip);
+
+    expect(response.headers.get('Content-Encoding')).toBe('gzip');
+    expect(response.headers.get('Vary')).toContain('Accept-Encoding');
+    expect(response.headers.get('Content-Length')).toBeNull();
+    expect(await gunzip(response)).toBe(LARGE);
+  });
+
+  test('sends small bodies as they are, with Vary', async () => {
+    const { request } = createServer();
+    const response = await request('/small', gzip);
+
+    expect(response.headers.get('Content-Encoding')).toBeNull();
+    expect(response.headers.get('Vary')).toContain('Accept-Encoding');
+    expect(await response.text()).toBe('tiny');
+  });
+
+  test('leaves uncompressible and no-transform responses alone', async () => {
+    const { request } = createServer();
+
+    for (const path of ['/image', '/no-transform']) {
+      const response = await request(path, gzip);
+      expect(response.headers.get('Content-Encoding')).toBeNull();
+      expect(await response.text()).toBe(LARGE);
+    }
+  });
+
+  test('sends identity when no encoding is accepted', async () => {
+    const { request } = createServer({ encodings: ['br'] });
+    const response = await request('/large', gzip);
+
+    expect(response.headers.get('Content-Encoding')).toBeNull();
+    expect(await response.text()).toBe(LARGE);
+  });
+
+  test('weakens strong ETags', async () => {
+    const { request } = createServer();
+    const response = await request('/strong', gzip);
+
+    expect(response.headers.get('ETag')).toBe('W/"v1"');
+  });
+
+  test('compresses streamed bodies chunk by chunk', async () => {
+    const { request } = createServer();
+    const response = await request('/stream', gzip);
+
+    expect(response.headers.get('Content-Encoding')).toBe('gzip');
+    expect(await gunzip(response)).toBe('first,second');
+  });
+
+  test('compresses error responses rendered after it', async () => {
+    const { request } = createServer({ threshold: 0 });
+    const response = await request('/failing', gzip);
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get('Content-Encoding')).toBe('gzip');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './helpers';
+
+const UPDATED_AT = new Date('2026-01-01T00:00:00Z');
+
+function createServer() {
+  return createTestServer((router) => {
+    router.get('/articles', async (_req, res) => res.json([{ id: 1 }]), {
+      etag: true,
+      cache: { public: true, maxAge: 300 },
+    });
+    router.get('/articles/1', async (_req, res) =>
+      res.lastModified(UPDATED_AT).json({ id: 1 })
+    );
+    router.get('/strong', async (_req, res) =>
+      res.etag('"v1"', false).json({ id: 1 })
+    );
+    router.get('/missing', async (_req, res) =>
+      res.status(404).etag('"gone"', false).json({ error: true })
+    );
+    router.post('/articles', async (_req, res) =>
+      res.etag('"v1"', false).json({ id: 1 })
+    );
+  });
+}
+
+describe('conditional GET', () => {
+  test('adds validators and cache headers from route meta', async () => {
+    const { request } = createServer();
+    const response = await request('/articles');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toMatch(/^W\/".+"$/);
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=300');
+  });
+
+  test('answers a matching If-None-Match with 304', async () => {
+    const { request } = createServer();
+    const etag = (await request('/articles')).headers.get('ETag')!;
+    const response = await request('/articles', {
+      headers: { 'If-None-Match': etag },
+    });
+
+    expect(response.status).toBe(304);
+    expect(response.headers.get('ETag')).toBe(etag);
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=300');
+    expect(await response.text()).toBe('');
+  });
+
+  test('compares ETags weakly and accepts lists and *', async () => {
+    const { request } = createServer();
+    const matches = async (ifNoneMatch: string) =>
+      (await request('/strong', { headers: { 'If-None-Match': ifNoneMatch } }))
+        .status;
+
+    expect(await matches('W/"v1"')).toBe(304);
+    expect(await matches('"v0", "v1"')).toBe(304);
+    expect(await matches('*')).toBe(304);
+    expect(await matches('"v2"')).toBe(200);
+  });
+
+  test('answers If-Modified-Since from Last-Modified', async () => {
+    const { request } = createServer();
+    const since = async (date: Date) =>
+      (
+        await request('/articles/1', {
+          headers: { 'If-Modified-Since': date.toUTCString() },
+        })
+      ).status;
+
+    expect(await since(UPDATED_AT)).toBe(304);
+    expect(await since(new Date('2026-02-01T00:00:00Z'))).toBe(304);
+    expect(await since(new Date('2025-12-31T00:00:00Z'))).toBe(200);
+  });
+
+  test('prefers If-None-Match over If-Modified-Since', async () => {
+    const { request } = createServer();
+    const response = await request('/articles', {
+      headers: {
+        'If-None-Match': '"other"',
+        'If-Modified-Since': new Date().toUTCString(),
+      },
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  test('always sends a full response for Cache-Control: no-cache', async () => {
+    const { request } = createServer();
+    const response = await request('/strong', {
+      headers: { 'If-None-Match': '"v1"', 'Cache-Control': 'no-cache' },
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  test('leaves other methods and statuses alone', async () => {
+    const { request } = createServer();
+    const headers = { 'If-None-Match': '"v1"' };
+
+    expect(
+      (await request('/articles', { method: 'POST', headers })).status
+    ).toBe(200);
+    expect(
+      (
+        await request('/missing', {
+          headers: { 'If-None-Match': '"gone"' },
+        })
+      ).status
+    ).toBe(404);
+  });
+
+  test('answers HEAD requests with 304 too', async () => {
+    const { request } = createServer();
+    const response = await request('/strong', {
+      method: 'HEAD',
+      headers: { 'If-None-Match': '"v1"' },
+    });
+
+    expect(response.status).toBe(304);
+  });
+});
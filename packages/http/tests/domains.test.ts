@@ -0,0 +1,168 @@
+import { HttpMiddleware } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+import { HttpRouter } from '../src';
+import { createTestServer } from './helpers';
+
+const handler = async () => {};
+
+function routerWithDomains(): HttpRouter {
+  const router = new HttpRouter();
+  router.group({ domain: '{tenant}.example.com' }, () => {
+    router.get('/', handler, { name: 'tenant.home' });
+    router.get('/users/:id', handler, { name: 'tenant.users.show' });
+  });
+  router.group({ domain: 'admin.example.com' }, () => {
+    router.get('/users', handler, { name: 'admin.users' });
+  });
+  router.get('/health', handler, { name: 'health' });
+  return router;
+}
+
+const respond =
+  (name: string): HttpMiddleware =>
+  async (req, res) =>
+    res.json({ name, tenant: req.param('tenant'), id: req.param('id') });
+
+function createServer() {
+  return createTestServer(
+    (router) => {
+      router.group({ domain: '{tenant}.example.com' }, () => {
+        router.get('/', respond('tenant.home'));
+        router.get('/users/:id', respond('tenant.users'));
+        router.get('/only-tenants', respond('tenant.only'));
+        router.get(
+          '/validated',
+          async (req, res) => res.json(req.validated()),
+          {
+            schema: { params: z.object({ tenant: z.string().length(4) }) },
+          }
+        );
+      });
+      router.group({ domain: 'admin.example.com' }, () => {
+        router.get('/', respond('admin.home'));
+      });
+      router.group({ domain: 'api-{region}.example.net' }, () => {
+        router.get('/', async (req, res) =>
+          res.json({ region: req.param('region') })
+        );
+      });
+      router.get('/', respond('home'));
+      router.get('/health', respond('health'));
+    },
+    { config: { 'app.trustProxy': true } }
+  );
+}
+
+const on = (host: string, headers: Record<string, string> = {}) => ({
+  headers: { Host: host, ...headers },
+});
+
+describe('host based routing', () => {
+  test('captures placeholders from the host', async () => {
+    const { request } = createServer();
+    const response = await request('/users/7', on('acme.example.com'));
+
+    expect(await response.json()).toEqual({
+      name: 'tenant.users',
+      tenant: 'acme',
+      id: '7',
+    });
+  });
+
+  test('tries exact hosts before patterns and any host last', async () => {
+    const { request } = createServer();
+    const name = async (host: string, path = '/') =>
+      (await (await request(path, on(host))).json()).name;
+
+    expect(await name('admin.example.com')).toBe('admin.home');
+    expect(await name('acme.example.com')).toBe('tenant.home');
+    expect(await name('example.com')).toBe('home');
+    expect(await name('acme.example.com', '/health')).toBe('health');
+  });
+
+  test('matches within a single label, ignoring case and port', async () => {
+    const { request } = createServer();
+
+    expect(
+      (await (await request('/', on('API-EU.Example.net:8000'))).json()).region
+    ).toBe('eu');
+    expect(
+      (await (await request('/', on('a.b.example.com'))).json()).name
+    ).toBe('home');
+  });
+
+  test('answers 404 for paths only registered on other hosts', async () => {
+    const { request } = createServer();
+
+    expect((await request('/only-tenants', on('example.com'))).status).toBe(
+      404
+    );
+  });
+
+  test('validates host params with route schemas', async () => {
+    const { request } = createServer();
+
+    expect(
+      await (await request('/validated', on('acme.example.com'))).json()
+    ).toEqual({ params: { tenant: 'acme' } });
+    expect((await request('/validated', on('ab.example.com'))).status).toBe(
+      400
+    );
+  });
+
+  test('reads the host from trusted proxies', async () => {
+    const { request } = createServer();
+    const response = await request(
+      '/',
+      on('internal', { 'X-Forwarded-Host': 'admin.example.com' })
+    );
+
+    expect((await response.json()).name).toBe('admin.home');
+  });
+});
+
+describe('URLs for domain routes', () => {
+  test('are absolute, with the host filled from the params', () => {
+    const router = routerWithDomains();
+
+    expect(router.url('tenant.home', { tenant: 'acme' })).toBe(
+      'https://acme.example.com/'
+    );
+    expect(
+      router.url('tenant.users.show', { tenant: 'acme', id: 7 }, { page: 2 })
+    ).toBe('https://acme.example.com/users/7?page=2');
+    expect(router.url('admin.users')).toBe('https://admin.example.com/users');
+  });
+
+  test('stay paths for routes without a domain', () => {
+    expect(routerWithDomains().url('health')).toBe('/health');
+  });
+
+  test('require every host placeholder', () => {
+    expect(() => routerWithDomains().url('tenant.home')).toThrow(
+      'Missing parameter "tenant" for route "tenant.home"'
+    );
+  });
+
+  test('follow the scheme of the request being handled', async () => {
+    const { request } = createTestServer(
+      (router) => {
+        router.group({ domain: '{tenant}.example.com' }, () => {
+          router.get('/', handler, { name: 'tenant.home' });
+        });
+        router.get('/link', async (_req, res) =>
+          res.json({
+            url: router.url('tenant.home', { tenant: 'acme' }),
+            signed: router.signedUrl('tenant.home', { tenant: 'acme' }),
+          })
+        );
+      },
+      { config: { 'app.key': 'test-key' } }
+    );
+    const { url, signed } = await (await request('/link')).json();
+
+    expect(url).toBe('http://acme.example.com/');
+    expect(signed).toMatch(/^http:\/\/acme\.example\.com\/\?signature=/);
+  });
+});
@@ -0,0 +1,178 @@
+import { HttpMiddleware, HttpStatusCode } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import {
+  ConflictException,
+  HttpExceptionHandler,
+  NotFoundException,
+} from '../src';
+import { createTestServer } from './helpers';
+
+class PaymentDeclinedError extends Error {}
+
+const PAYMENT_REQUIRED = 402 as HttpStatusCode;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createServer() {
+  const events: string[] = [];
+  const reported: unknown[] = [];
+
+  const context = createTestServer((router) => {
+    router.get('/passed', async (_req, _res, next) =>
+      next(new PaymentDeclinedError('declined'))
+    );
+    router.get('/thrown', async () => {
+      throw new PaymentDeclinedError('declined');
+    });
+    router.get('/conflict', async () => {
+      throw new ConflictException('Already paid');
+    });
+    router.get('/twice', async (_req, _res, next) => {
+      await next();
+      await next();
+    });
+  });
+
+  const handler = new HttpExceptionHandler(context.app.get('logger'));
+  context.server.setExceptionHandler({
+    report: (error, req) => {
+      reported.push(error);
+      return handler.report(error, req);
+    },
+    render: (error, req, res) => handler.render(error, req, res),
+  });
+
+  return { ...context, events, reported };
+}
+
+const json = { headers: { Accept: 'application/json' } };
+
+describe('error propagation', () => {
+  test('rejects upstream next() with the error passed downstream', async () => {
+    const { server, request, events } = createServer();
+    server.use(async (_req, res, next) => {
+      try {
+        await next();
+      } catch (error) {
+        events.push((error as Error).message);
+        res.status(PAYMENT_REQUIRED).json({ recovered: true });
+      }
+    });
+    const response = await request('/passed');
+
+    expect(response.status).toBe(402);
+    expect(events).toEqual(['declined']);
+  });
+
+  test('still surfaces errors below a middleware that does not await next()', async () => {
+    const { server, request, reported } = createServer();
+    server.use(async (_req, _res, next) => {
+      void next();
+    });
+    const response = await request('/thrown', json);
+
+    expect(response.status).toBe(500);
+    expect(reported[0]).toBeInstanceOf(PaymentDeclinedError);
+  });
+
+  test('hands passed and thrown errors to error middleware', async () => {
+    const { server, request, reported } = createServer();
+    server.useErrorMiddleware(async (err, _req, res, next) => {
+      if (err instanceof PaymentDeclinedError) {
+        return res.status(PAYMENT_REQUIRED).json({ reason: err.message });
+      }
+      return next();
+    });
+
+    for (const path of ['/passed', '/thrown']) {
+      const response = await request(path);
+      expect(response.status).toBe(402);
+      expect(await response.json()).toEqual({ reason: 'declined' });
+    }
+    expect(reported).toEqual([]);
+  });
+
+  test('renders errors nobody answers with the exception handler', async () => {
+    const { server, request, events, reported } = createServer();
+    server.useErrorMiddleware(async (err, _req, _res, next) => {
+      events.push((err as Error).message);
+      return next();
+    });
+    const response = await request('/conflict', json);
+
+    expect(response.status).toBe(409);
+    expect(events).toEqual(['Already paid']);
+    expect(reported).toHaveLength(1);
+  });
+
+  test('lets error middleware replace the error', async () => {
+    const { server, request, reported } = createServer();
+    server.useErrorMiddleware(async (err, _req, _res, next) =>
+      next(err instanceof PaymentDeclinedError ? new NotFoundException() : err)
+    );
+    server.useErrorMiddleware(async (err) => {
+      if (err instanceof NotFoundException) throw new ConflictException();
+    });
+
+    expect((await request('/thrown', json)).status).toBe(409);
+    expect(reported[0]).toBeInstanceOf(ConflictException);
+  });
+
+  test('fails a chain that calls next() twice', async () => {
+    const { request } = createServer();
+
+    expect((await request('/twice')).status).toBe(500);
+  });
+});
+
+describe('terminable middleware', () => {
+  const terminable = (
+    events: string[],
+    name: string,
+    fail = false
+  ): HttpMiddleware => {
+    const middleware: HttpMiddleware = async (_req, _res, next) => {
+      events.push(`${name}:handle`);
+      return next();
+    };
+    middleware.terminate = async () => {
+      events.push(`${name}:terminate`);
+      if (fail) throw new Error(`${name} failed`);
+    };
+    return middleware;
+  };
+
+  test('runs terminate() hooks in order after the response', async () => {
+    const { server, request, events } = createServer();
+    server.use(terminable(events, 'first', true));
+    server.use(terminable(events, 'second'));
+
+    const response = await request('/conflict');
+    events.push('responded');
+    expect(response.status).toBe(409);
+    await sleep(10);
+
+    expect(events).toEqual([
+      'first:handle',
+      'second:handle',
+      'responded',
+      'first:terminate',
+      'second:terminate',
+    ]);
+  });
+
+  test('passes the final response to terminate() hooks', async () => {
+    const { server, request } = createServer();
+    const statuses: number[] = [];
+    const middleware: HttpMiddleware = async (_req, _res, next) => next();
+    middleware.terminate = (_req, res) => {
+      statuses.push(res.getStatusCode());
+    };
+    server.use(middleware);
+
+    await request('/conflict');
+    await sleep(10);
+
+    expect(statuses).toEqual([409]);
+  });
+});
@@ -0,0 +1,60 @@
+import { ConfigValue } from '@blitzbun/contracts';
+import { Application } from '@blitzbun/core';
+import type { Server } from 'bun';
+import {
+  HttpRouter,
+  HttpServer,
+  WebSocketRouter,
+  WSSessionManager,
+} from '../src';
+
+export interface TestServerOptions {
+  config?: Record<string, ConfigValue>;
+  // address of the peer connecting to the server
+  remoteAddress?: string;
+}
+
+/**
+ * An HttpServer around a fresh application, with the routes registered by
+ * `setup`. Requests go straight to `handle()`, without a listening socket.
+ */
+export function createTestServer(
+  setup: (router: HttpRouter, app: Application) => void,
+  options: TestServerOptions = {}
+) {
+  const app = new Application('/tmp/blitzbun-tests');
+  app.get('logger').setLevel('silent');
+  for (const [key, value] of Object.entries(options.config ?? {})) {
+    app.get('config').set(key, value);
+  }
+
+  const router = new HttpRouter();
+  app.use('router', router);
+  app.use('wsRouter', new WebSocketRouter());
+  app.use('wsSession', new WSSessionManager());
+  setup(router, app);
+
+  const server = new HttpServer(app);
+  const bunServer = {
+    upgrade: () => false,
+    requestIP: () => ({
+      address: options.remoteAddress ?? '127.0.0.1',
+      family: 'IPv4',
+      port: 40000,
+    }),
+  } as unknown as Server;
+
+  const request = async (
+    path: string,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    const response = await server.handle(
+      new Request(`http://localhost${path}`, init),
+      bunServer
+    );
+    if (!response) throw new Error(`No response for ${path}`);
+    return response;
+  };
+
+  return { app, router, server, request };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './helpers';
+
+function createServer() {
+  return createTestServer((router) => {
+    router.get('/users/:id', async (req, res) =>
+      res.header('X-User', req.param('id', '')).json({ id: req.param('id') })
+    );
+    router.put('/users/:id', async (_req, res) => res.json({ updated: true }));
+    router.post('/reports', async (_req, res) => res.json({ queued: true }));
+    router.get('/files/*', async (_req, res) => res.json({ file: true }));
+  });
+}
+
+describe('method handling', () => {
+  test('answers other methods on a known path with 405', async () => {
+    const { request } = createServer();
+    const response = await request('/users/1', { method: 'DELETE' });
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET, PUT, HEAD, OPTIONS');
+  });
+
+  test('answers unknown paths with 404', async () => {
+    const { request } = createServer();
+
+    expect((await request('/missing')).status).toBe(404);
+    expect((await request('/missing', { method: 'OPTIONS' })).status).toBe(404);
+  });
+
+  test('runs the GET route for HEAD without sending the body', async () => {
+    const { request } = createServer();
+    const response = await request('/users/7', { method: 'HEAD' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-User')).toBe('7');
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(await response.text()).toBe('');
+  });
+
+  test('does not answer HEAD for paths without a GET route', async () => {
+    const { request } = createServer();
+    const response = await request('/reports', { method: 'HEAD' });
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST, OPTIONS');
+    expect(await response.text()).toBe('');
+  });
+
+  test('sends HEAD errors for unknown paths without a body', async () => {
+    const { request } = createServer();
+    const response = await request('/missing', { method: 'HEAD' });
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe('');
+  });
+
+  test('answers OPTIONS with the allowed methods', async () => {
+    const { request } = createServer();
+    const response = await request('/users/1', { method: 'OPTIONS' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Allow')).toBe('GET, PUT, HEAD, OPTIONS');
+    expect(await response.text()).toBe('');
+  });
+
+  test('answers OPTIONS for paths with regex characters', async () => {
+    const { request } = createServer();
+
+    for (const path of ['/files/a(', '/files/a[', '/files/a+b*']) {
+      const response = await request(path, { method: 'OPTIONS' });
+      expect(response.status).toBe(204);
+      expect(response.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+    }
+  });
+
+  test('lets global middleware answer OPTIONS first', async () => {
+    const { server, request } = createServer();
+    server.use(async (req, res, next) => {
+      if (req.method !== 'OPTIONS') return next();
+      res.status(200).header('Access-Control-Allow-Origin', '*').text('');
+    });
+    const response = await request('/users/1', { method: 'OPTIONS' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Allow')).toBeNull();
+  });
+});
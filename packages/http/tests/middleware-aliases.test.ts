@@ -0,0 +1,138 @@
+import { HttpMethod, HttpMiddleware } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import { HttpRouter } from '../src';
+import { createTestServer } from './helpers';
+
+const ran: string[] = [];
+const tag =
+  (name: string): HttpMiddleware =>
+  async (_req, _res, next) => {
+    ran.push(name);
+    await next();
+  };
+
+function createServer(setup: (router: HttpRouter) => void = () => {}) {
+  ran.length = 0;
+  const built: string[][] = [];
+  const context = createTestServer((router) => {
+    router
+      .aliasMiddleware('tag', (...params) => {
+        built.push(params);
+        return tag(params.join(','));
+      })
+      .aliasMiddleware('auth', () => tag('auth'))
+      .aliasMiddleware('session', () => tag('session'))
+      .middlewareGroup('web', ['session', 'tag:web'])
+      .middlewareGroup('app', ['web', 'auth']);
+    setup(router);
+  });
+  return { ...context, built };
+}
+
+const ok: HttpMiddleware = async (_req, res) => res.json({ ok: true });
+
+describe('middleware aliases', () => {
+  test('passes reference parameters to the factory, once per reference', async () => {
+    const { request, built } = createServer((router) => {
+      router.group({ middleware: ['tag:60,1'] }, () => {
+        router.get('/a', ok);
+        router.get('/b', ok);
+      });
+    });
+    await request('/a');
+    await request('/b');
+    await request('/a');
+
+    expect(ran).toEqual(['60,1', '60,1', '60,1']);
+    expect(built).toEqual([['60', '1']]);
+  });
+
+  test('expands nested groups in order and runs each middleware once', async () => {
+    const { request } = createServer((router) => {
+      router.group({ middleware: ['app', 'session'] }, () => {
+        router.get('/', ok);
+      });
+    });
+    await request('/');
+
+    expect(ran).toEqual(['session', 'web', 'auth']);
+  });
+
+  test('resolves aliases registered as global middleware', async () => {
+    const { server, request } = createServer((router) => {
+      router.group({ middleware: ['tag:route'] }, () => router.get('/', ok));
+    });
+    server.use('tag:global');
+    await request('/');
+
+    expect(ran).toEqual(['global', 'route']);
+  });
+
+  test('enforces the priority order across global and route middleware', async () => {
+    const { server, request } = createServer((router) => {
+      router.middlewarePriority(['session', 'auth']);
+      router.group({ middleware: ['session', 'tag:route'] }, () =>
+        router.get('/', ok)
+      );
+    });
+    server.use('auth');
+    server.use('tag:global');
+    await request('/');
+
+    expect(ran).toEqual(['session', 'global', 'auth', 'route']);
+  });
+
+  test('drops middleware listed in withoutMiddleware', async () => {
+    const recorder = tag('recorder');
+    const { server, request } = createServer((router) => {
+      router.group({ middleware: ['app', 'tag:1'] }, () => {
+        router.get('/', ok, { withoutMiddleware: ['tag', 'web'] });
+        router.get('/global', ok, { withoutMiddleware: [recorder] });
+      });
+    });
+    server.use(recorder);
+
+    await request('/');
+    expect(ran).toEqual(['recorder', 'auth']);
+
+    ran.length = 0;
+    await request('/global');
+    expect(ran).toEqual(['session', 'web', 'auth', '1']);
+  });
+
+  test('renders unknown names and looping groups as a 500', async () => {
+    const { request } = createServer((router) => {
+      router.middlewareGroup('loop', ['loop']);
+      router.group({ middleware: ['missing'] }, () =>
+        router.get('/unknown', ok)
+      );
+      router.group({ middleware: ['loop'] }, () => router.get('/loop', ok));
+    });
+
+    expect((await request('/unknown')).status).toBe(500);
+    expect((await request('/loop')).status).toBe(500);
+  });
+
+  test('rejects unknown names and looping groups when resolving', () => {
+    const router = new HttpRouter();
+    router.middlewareGroup('loop', ['inner']);
+    router.middlewareGroup('inner', ['loop']);
+
+    expect(() => router.resolveMiddleware(['missing:1'])).toThrow(
+      'Middleware not defined: missing:1'
+    );
+    expect(() => router.resolveMiddleware(['loop'])).toThrow(
+      'Middleware group "loop" includes itself: loop > inner > loop'
+    );
+  });
+
+  test('keeps the deprecated middlewares() accessor working', () => {
+    const { router } = createServer((router) => {
+      router.group({ middleware: ['web'] }, () => router.get('/', ok));
+    });
+    const route = router.match(HttpMethod.GET, '/')!;
+
+    expect(route.middlewares()).toHaveLength(3);
+    expect(route.middlewares().at(-1)).toBe(ok);
+  });
+});
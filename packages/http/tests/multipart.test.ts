@@ -0,0 +1,136 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createTestServer } from './helpers';
+
+// uploads are written to the OS temp directory, pointed at one per run
+const previousTmpDir = process.env.TMPDIR;
+const uploadDir = mkdtempSync(join(tmpdir(), 'blitzbun-multipart-'));
+process.env.TMPDIR = uploadDir;
+
+afterAll(() => {
+  if (previousTmpDir === undefined) delete process.env.TMPDIR;
+  else process.env.TMPDIR = previousTmpDir;
+  rmSync(uploadDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  for (const name of readdirSync(uploadDir)) {
+    rmSync(join(uploadDir, name), { force: true });
+  }
+});
+
+const leftovers = () => readdirSync(uploadDir);
+
+function form(files: Record<string, string>, fields = {}): RequestInit {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    body.append(name, String(value));
+  }
+  for (const [name, content] of Object.entries(files)) {
+    body.append(name, new File([content], `${name}.txt`));
+  }
+  return { method: 'POST', body };
+}
+
+function createServer() {
+  const seen: string[] = [];
+  const context = createTestServer(
+    (router) => {
+      router.post(
+        '/upload',
+        async (req, res) => {
+          // the temp files exist while the handler runs
+          seen.push(...leftovers());
+          const file = req.file('avatar');
+          return res.json({
+            title: req.input('title'),
+            name: file?.name,
+            size: file?.size,
+            content: await file?.text(),
+          });
+        },
+        { limits: { maxFileSize: 32, maxFiles: 2 } }
+      );
+      router.post(
+        '/failing',
+        async () => {
+          throw new Error('storage is down');
+        },
+        { limits: { maxFileSize: 32, maxFiles: 2 } }
+      );
+    },
+    { config: { 'app.limits': { maxBodySize: 4096 } } }
+  );
+  return { ...context, seen };
+}
+
+describe('multipart uploads', () => {
+  test('parses fields and files, then removes the temp files', async () => {
+    const { request, seen } = createServer();
+    const response = await request(
+      '/upload',
+      form({ avatar: 'hello' }, { title: 'Profile' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      title: 'Profile',
+      name: 'avatar.txt',
+      size: 5,
+      content: 'hello',
+    });
+    expect(seen).toHaveLength(1);
+    expect(leftovers()).toEqual([]);
+  });
+
+  test('removes the temp files when the handler fails', async () => {
+    const { request } = createServer();
+    const response = await request('/failing', form({ a: 'one', b: 'two' }));
+
+    expect(response.status).toBe(500);
+    expect(leftovers()).toEqual([]);
+  });
+
+  test('rejects files over the size limit and removes partial files', async () => {
+    const { request } = createServer();
+    const response = await request(
+      '/upload',
+      form({ avatar: 'ok', large: 'x'.repeat(64) })
+    );
+
+    expect(response.status).toBe(413);
+    expect(leftovers()).toEqual([]);
+  });
+
+  test('rejects more files than allowed and removes the stored ones', async () => {
+    const { request } = createServer();
+    const response = await request(
+      '/upload',
+      form({ a: 'one', b: 'two', c: 'three' })
+    );
+
+    expect(response.status).toBe(413);
+    expect(leftovers()).toEqual([]);
+  });
+
+  test('rejects bodies that end before the closing boundary', async () => {
+    const { request } = createServer();
+    const body = [
+      '--boundary',
+      'Content-Disposition: form-data; name="avatar"; filename="a.txt"',
+      '',
+      'unfinished',
+    ].join('\r\n');
+    const response = await request('/upload', {
+      method: 'POST',
+      body,
+      headers: { 'Content-Type': 'multipart/form-data; boundary=boundary' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(leftovers()).toEqual([]);
+  });
+});
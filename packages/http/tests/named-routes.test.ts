@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+import { HttpRouter } from '../src';
+import { createTestServer } from './helpers';
+
+const handler = async () => {};
+
+function createRouter(): HttpRouter {
+  const router = new HttpRouter();
+  router.get('/', handler, { name: 'home' });
+  router.group({ prefix: '/user', name: 'user.' }, () => {
+    router.get('/:uuid', handler, { name: 'show' });
+    router.get('/:uuid/posts/:slug?', handler, { name: 'posts' });
+    router.get('/:uuid/avatar/:size.png', handler, { name: 'avatar' });
+  });
+  router.get('/files/*', handler, { name: 'files.show' });
+  return router;
+}
+
+describe('named routes', () => {
+  test('prefixes names and paths from their groups', () => {
+    const router = createRouter();
+
+    expect(router.url('home')).toBe('/');
+    expect(router.url('user.show', { uuid: 'abc' })).toBe('/user/abc');
+  });
+
+  test('rejects names registered twice', () => {
+    const router = createRouter();
+
+    expect(() => router.get('/again', handler, { name: 'home' })).toThrow(
+      'Route name already registered: home'
+    );
+  });
+
+  test('throws for unknown names and missing params', () => {
+    const router = createRouter();
+
+    expect(() => router.url('missing')).toThrow('Route not defined: missing');
+    expect(() => router.url('user.show')).toThrow(
+      'Missing parameter "uuid" for route "user.show"'
+    );
+  });
+});
+
+describe('URL generation', () => {
+  test('leaves out optional params and keeps extensions', () => {
+    const router = createRouter();
+
+    expect(router.url('user.posts', { uuid: 'abc' })).toBe('/user/abc/posts');
+    expect(router.url('user.posts', { uuid: 'abc', slug: 'hello' })).toBe(
+      '/user/abc/posts/hello'
+    );
+    expect(router.url('user.avatar', { uuid: 'abc', size: 64 })).toBe(
+      '/user/abc/avatar/64.png'
+    );
+  });
+
+  test('encodes values and appends the query string', () => {
+    const router = createRouter();
+
+    expect(
+      router.url(
+        'user.show',
+        { uuid: 'a b/c' },
+        { page: 2, q: 'x&y', skip: undefined }
+      )
+    ).toBe('/user/a%20b%2Fc?page=2&q=x%26y');
+  });
+
+  test('fills wildcards from wild and keeps their slashes', () => {
+    const router = createRouter();
+
+    expect(router.url('files.show', { wild: 'docs/my report.pdf' })).toBe(
+      '/files/docs/my%20report.pdf'
+    );
+  });
+
+  test('redirects to named routes', async () => {
+    const { request } = createTestServer((router) => {
+      router.get('/user/:uuid', handler, { name: 'user.show' });
+      router.post('/user', async (_req, res) =>
+        res.redirectToRoute('user.show', { uuid: 'abc' }, { created: 1 })
+      );
+    });
+    const response = await request('/user', { method: 'POST' });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/user/abc?created=1');
+  });
+});
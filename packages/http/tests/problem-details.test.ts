@@ -0,0 +1,148 @@
+import { HttpStatusCode } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import {
+  ConflictException,
+  HttpException,
+  TooManyRequestsException,
+  ValidationException,
+} from '../src';
+import { createProblemDetails } from '../src/utils/error-response';
+import { createTestServer } from './helpers';
+
+function createServer(problemDetails: boolean, isDevEnv = false) {
+  return createTestServer(
+    (router) => {
+      router.post('/users', async () => {
+        throw new ValidationException([
+          { field: 'email', message: 'Invalid email' },
+        ]);
+      });
+      router.get('/conflict', async () => {
+        throw new ConflictException('Email already registered');
+      });
+      router.get('/throttled', async () => {
+        throw new TooManyRequestsException(30);
+      });
+      router.get('/teapot', async () => {
+        throw new HttpException(418 as HttpStatusCode, "I'm a teapot");
+      });
+      router.get('/crash', async () => {
+        throw new Error('database password is hunter2');
+      });
+    },
+    {
+      config: {
+        'app.problemDetails': problemDetails,
+        'app.isDevEnv': isDevEnv,
+      },
+    }
+  );
+}
+
+const json = { headers: { Accept: 'application/json' } };
+const problem = { headers: { Accept: 'application/problem+json' } };
+
+describe('createProblemDetails', () => {
+  test('omits a detail equal to the title and keeps standard members', () => {
+    expect(
+      createProblemDetails(HttpStatusCode.NOT_FOUND, 'Not Found', '/x', {
+        status: 200,
+        hint: 'check the id',
+      })
+    ).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      instance: '/x',
+      hint: 'check the id',
+    });
+  });
+});
+
+describe('problem+json error responses', () => {
+  test('renders exceptions as problem documents when enabled', async () => {
+    const { request } = createServer(true);
+    const response = await request('/users', { method: 'POST', ...json });
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toBe(
+      'application/problem+json'
+    );
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Validation failed',
+      instance: '/users',
+      errors: [{ field: 'email', message: 'Invalid email' }],
+    });
+  });
+
+  test('treats an Accept of problem+json as a JSON request', async () => {
+    const { request } = createServer(true);
+    const response = await request('/conflict', problem);
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({
+      title: 'Conflict',
+      detail: 'Email already registered',
+    });
+  });
+
+  test('keeps exception headers and custom statuses', async () => {
+    const { request } = createServer(true);
+    const throttled = await request('/throttled', json);
+
+    expect(throttled.status).toBe(429);
+    expect(throttled.headers.get('Retry-After')).toBe('30');
+
+    const teapot = await request('/teapot', json);
+    expect(teapot.status).toBe(418);
+    expect(await teapot.json()).toMatchObject({
+      title: 'Error',
+      status: 418,
+      detail: "I'm a teapot",
+    });
+  });
+
+  test('never exposes the message of unexpected errors', async () => {
+    const { request } = createServer(true);
+    const response = await request('/crash', json);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      instance: '/crash',
+    });
+  });
+
+  test('adds the stack in development', async () => {
+    const { request } = createServer(true, true);
+    const body = await (await request('/crash', json)).json();
+
+    expect(Array.isArray(body.stack)).toBe(true);
+  });
+
+  test('keeps the code and message shape when disabled', async () => {
+    const { request } = createServer(false);
+    const response = await request('/users', { method: 'POST', ...json });
+
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(await response.json()).toEqual({
+      code: 400,
+      message: 'Validation failed',
+      errors: [{ field: 'email', message: 'Invalid email' }],
+    });
+  });
+
+  test('renders an HTML page for other clients', async () => {
+    const { request } = createServer(true);
+    const response = await request('/conflict');
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get('Content-Type')).toContain('text/html');
+    expect(await response.text()).toContain('409 Email already registered');
+  });
+});
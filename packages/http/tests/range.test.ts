@@ -0,0 +1,138 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { isRangeFresh, parseRange } from '../src/utils/range';
+import { createTestServer } from './helpers';
+
+const base = mkdtempSync(join(tmpdir(), 'blitzbun-range-'));
+const dir = join(base, 'public');
+const CONTENT = '0123456789abcdefghij';
+mkdirSync(dir);
+writeFileSync(join(dir, 'file.txt'), CONTENT);
+writeFileSync(join(base, 'secret.txt'), 'secret');
+
+afterAll(() => rmSync(base, { recursive: true, force: true }));
+
+function createServer() {
+  return createTestServer((router) => {
+    router.get('/files/:name', async (req, res) =>
+      res.sendFile(req.param('name', ''), { root: dir })
+    );
+    router.get('/download', async (req, res) =>
+      res.sendFile(req.query('path', ''), { root: dir })
+    );
+  });
+}
+
+const get = (headers: Record<string, string> = {}) =>
+  createServer().request('/files/file.txt', { headers });
+
+describe('parseRange', () => {
+  test('parses closed, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-4', 20)).toEqual({ start: 0, end: 4 });
+    expect(parseRange('bytes=15-', 20)).toEqual({ start: 15, end: 19 });
+    expect(parseRange('bytes=-5', 20)).toEqual({ start: 15, end: 19 });
+  });
+
+  test('clamps ranges that run past the end', () => {
+    expect(parseRange('bytes=10-99', 20)).toEqual({ start: 10, end: 19 });
+    expect(parseRange('bytes=-50', 20)).toEqual({ start: 0, end: 19 });
+  });
+
+  test('ignores missing, malformed and multi-range headers', () => {
+    expect(parseRange(undefined, 20)).toBeUndefined();
+    expect(parseRange('items=0-4', 20)).toBeUndefined();
+    expect(parseRange('bytes=-', 20)).toBeUndefined();
+    expect(parseRange('bytes=0-1,4-5', 20)).toBeUndefined();
+  });
+
+  test('returns null when no byte is inside the resource', () => {
+    expect(parseRange('bytes=20-', 20)).toBeNull();
+    expect(parseRange('bytes=5-4', 20)).toBeNull();
+    expect(parseRange('bytes=-0', 20)).toBeNull();
+    expect(parseRange('bytes=0-', 0)).toBeNull();
+  });
+});
+
+describe('isRangeFresh', () => {
+  test('compares If-Range ETags strongly', () => {
+    const modified = new Date('2026-01-01T00:00:00Z');
+
+    expect(isRangeFresh('"v1"', '"v1"', modified)).toBe(true);
+    expect(isRangeFresh('W/"v1"', 'W/"v1"', modified)).toBe(false);
+    expect(isRangeFresh('"v1"', 'W/"v1"', modified)).toBe(false);
+    expect(isRangeFresh(modified.toUTCString(), '"v1"', modified)).toBe(true);
+  });
+});
+
+describe('ranged file responses', () => {
+  test('sends the whole file without a Range header', async () => {
+    const response = await get();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(response.headers.get('Content-Length')).toBe('20');
+    expect(await response.text()).toBe(CONTENT);
+  });
+
+  test('answers a range with 206 Partial Content', async () => {
+    const response = await get({ Range: 'bytes=2-5' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe('bytes 2-5/20');
+    expect(response.headers.get('Content-Length')).toBe('4');
+    expect(await response.text()).toBe('2345');
+  });
+
+  test('answers a suffix range with the last bytes', async () => {
+    const response = await get({ Range: 'bytes=-3' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe('bytes 17-19/20');
+    expect(await response.text()).toBe('hij');
+  });
+
+  test('answers an unsatisfiable range with 416', async () => {
+    const response = await get({ Range: 'bytes=20-30' });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */20');
+  });
+
+  test('sends the whole file for several ranges', async () => {
+    const response = await get({ Range: 'bytes=0-1,5-6' });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(CONTENT);
+  });
+
+  test('honours If-Range only while the validator matches', async () => {
+    const etag = (await get()).headers.get('ETag')!;
+
+    const fresh = await get({ Range: 'bytes=0-1', 'If-Range': etag });
+    expect(fresh.status).toBe(206);
+    expect(await fresh.text()).toBe('01');
+
+    const stale = await get({ Range: 'bytes=0-1', 'If-Range': '"stale"' });
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe(CONTENT);
+  });
+
+  test('never honours If-Range with a weak validator', async () => {
+    const etag = (await get()).headers.get('ETag')!;
+    const response = await get({ Range: 'bytes=0-1', 'If-Range': `W/${etag}` });
+
+    expect(etag.startsWith('W/')).toBe(false);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(CONTENT);
+  });
+
+  test('keeps paths inside the root directory', async () => {
+    const { request } = createServer();
+
+    expect((await request('/download?path=file.txt')).status).toBe(200);
+    expect((await request('/download?path=../secret.txt')).status).toBe(404);
+  });
+});
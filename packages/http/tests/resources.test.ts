@@ -0,0 +1,124 @@
+import {
+  HttpMethod,
+  HttpMiddleware,
+  ResourceController,
+} from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import { HttpRouter } from '../src';
+import { createTestServer } from './helpers';
+
+const action =
+  (name: string): HttpMiddleware =>
+  async (req, res) =>
+    res.json({ action: name, id: req.param('uuid') ?? req.param('id') });
+
+const controller: ResourceController = {
+  list: action('list'),
+  create: action('create'),
+  fetch: action('fetch'),
+  update: action('update'),
+  delete: action('delete'),
+};
+
+const routes = (router: HttpRouter) =>
+  router
+    .getRoutes()
+    .map((route) => `${route.getMethod()} ${route.getPath()}`)
+    .sort();
+
+describe('resource routes', () => {
+  test('registers the REST routes for each action', async () => {
+    const { request } = createTestServer((router) => {
+      router.resource('users', controller, { param: 'uuid' });
+    });
+    const call = async (method: string, path: string) =>
+      (await request(path, { method })).json();
+
+    expect(await call('GET', '/users')).toEqual({ action: 'list' });
+    expect(await call('POST', '/users')).toEqual({ action: 'create' });
+    expect(await call('GET', '/users/abc')).toEqual({
+      action: 'fetch',
+      id: 'abc',
+    });
+    expect(await call('PUT', '/users/abc')).toEqual({
+      action: 'update',
+      id: 'abc',
+    });
+    expect(await call('PATCH', '/users/abc')).toEqual({
+      action: 'update',
+      id: 'abc',
+    });
+    expect(await call('DELETE', '/users/abc')).toEqual({
+      action: 'delete',
+      id: 'abc',
+    });
+  });
+
+  test('names the routes, with the name on PUT for update', () => {
+    const router = new HttpRouter();
+    router.group({ prefix: '/admin', name: 'admin.' }, () => {
+      router.resource('users', controller, { name: 'members' });
+    });
+
+    expect(router.url('admin.members.list')).toBe('/admin/users');
+    expect(router.url('admin.members.update', { id: 7 })).toBe(
+      '/admin/users/7'
+    );
+    const names = router
+      .getRoutes()
+      .filter((route) => route.getModule().name === 'admin.members.update')
+      .map((route) => route.getMethod());
+    expect(names).toEqual([HttpMethod.PUT]);
+  });
+
+  test('skips actions the controller lacks or the options exclude', () => {
+    const only = new HttpRouter().resource('users', controller, {
+      only: ['list', 'fetch'],
+    });
+    const except = new HttpRouter().resource('users', controller, {
+      except: ['delete', 'update'],
+    });
+    const partial = new HttpRouter().resource('users', {
+      list: controller.list,
+    });
+
+    expect(routes(only)).toEqual(['GET /users', 'GET /users/:id']);
+    expect(routes(except)).toEqual([
+      'GET /users',
+      'GET /users/:id',
+      'POST /users',
+    ]);
+    expect(routes(partial)).toEqual(['GET /users']);
+  });
+
+  test('applies per-action meta, middleware and transformers', async () => {
+    const { router, request } = createTestServer((router) => {
+      router.resource('users', controller, {
+        transformer: 'user',
+        meta: { list: { rpm: 300 } },
+        middleware: {
+          create: [
+            async (_req, res) => {
+              res.status(401).json({ error: 'Unauthorized' });
+            },
+          ],
+        },
+      });
+    });
+    const meta = (method: HttpMethod, url: string) =>
+      router.match(method, url)?.getModule().meta;
+
+    expect(meta(HttpMethod.GET, '/users')).toMatchObject({
+      rpm: 300,
+      transformer: 'user',
+      paginated: true,
+    });
+    expect(meta(HttpMethod.GET, '/users/1')).toMatchObject({
+      transformer: 'user',
+      paginated: false,
+    });
+    expect(meta(HttpMethod.DELETE, '/users/1')?.transformer).toBeUndefined();
+    expect((await request('/users', { method: 'POST' })).status).toBe(401);
+    expect((await request('/users')).status).toBe(200);
+  });
+});
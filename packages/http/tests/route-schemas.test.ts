@@ -0,0 +1,123 @@
+import { HttpMiddleware, RouteSchemas } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+import { createTestServer } from './helpers';
+
+const listPosts = {
+  params: z.object({ userId: z.coerce.number().int().positive() }),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    tags: z.array(z.string()).optional(),
+  }),
+  headers: z.object({ 'x-tenant': z.string() }),
+} satisfies RouteSchemas;
+
+const createPost = {
+  body: z.object({ title: z.string().min(3) }),
+} satisfies RouteSchemas;
+
+function createServer() {
+  const handled: string[] = [];
+  const context = createTestServer((router) => {
+    router.get(
+      '/users/:userId/posts',
+      async (req, res) => {
+        handled.push('list');
+        return res.json(req.validated<typeof listPosts>());
+      },
+      { schema: listPosts }
+    );
+    router.post(
+      '/posts',
+      async (req, res) => {
+        handled.push('create');
+        return res.json(req.validated<typeof createPost>());
+      },
+      { schema: createPost }
+    );
+  });
+  return { ...context, handled };
+}
+
+const tenant = { headers: { 'X-Tenant': 'acme' } };
+
+describe('route schemas', () => {
+  test('hands the handler coerced and typed input', async () => {
+    const { request } = createServer();
+    const response = await request(
+      '/users/42/posts?page=3&tags=a&tags=b&extra=1',
+      tenant
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      params: { userId: 42 },
+      query: { page: 3, tags: ['a', 'b'] },
+      headers: { 'x-tenant': 'acme' },
+    });
+  });
+
+  test('applies schema defaults', async () => {
+    const { request } = createServer();
+    const { query } = await (await request('/users/1/posts', tenant)).json();
+
+    expect(query).toEqual({ page: 1 });
+  });
+
+  test('rejects invalid input with every error, before the handler', async () => {
+    const { request, handled } = createServer();
+    const response = await request('/users/0/posts?page=abc', {
+      headers: { Accept: 'application/json' },
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.message).toBe('Validation failed');
+    expect(body.errors.map((error: { field: string }) => error.field)).toEqual([
+      'params.userId',
+      'query.page',
+      'headers.x-tenant',
+    ]);
+    expect(handled).toEqual([]);
+  });
+
+  test('validates the parsed body', async () => {
+    const { request } = createServer();
+    const post = (title: string) =>
+      request('/posts', {
+        method: 'POST',
+        body: JSON.stringify({ title, admin: true }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+    const created = await post('Hello');
+    expect(await created.json()).toEqual({ body: { title: 'Hello' } });
+
+    const rejected = await post('Hi');
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json()).errors[0].field).toBe('body.title');
+  });
+
+  test('runs after the route middleware', async () => {
+    const order: string[] = [];
+    const guard: HttpMiddleware = async (_req, res) => {
+      order.push('guard');
+      res.status(401).json({ error: 'Unauthorized' });
+    };
+    const { request } = createTestServer((router) => {
+      router.group({ middleware: [guard] }, () => {
+        router.post('/posts', async (_req, res) => res.json({}), {
+          schema: createPost,
+        });
+      });
+    });
+    const response = await request('/posts', {
+      method: 'POST',
+      body: '{}',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    expect(response.status).toBe(401);
+    expect(order).toEqual(['guard']);
+  });
+});
@@ -0,0 +1,106 @@
+import { AppContext } from '@blitzbun/core';
+import { describe, expect, test } from 'bun:test';
+import signed from '../src/middlewares/signed-url';
+import { createTestServer } from './helpers';
+
+function createServer(config = {}) {
+  const context = createTestServer(
+    (router) => {
+      router.group({ middleware: [signed] }, () => {
+        router.get(
+          '/invoices/:id',
+          async (req, res) => res.json({ id: req.param('id') }),
+          { name: 'invoices.show' }
+        );
+      });
+    },
+    { config: { 'app.key': 'test-signing-key', ...config } }
+  );
+
+  // URL generation reads the key from the container of the current context
+  const sign = async (
+    params: Record<string, string>,
+    options: { expiresIn?: number; query?: Record<string, string> } = {}
+  ) => {
+    let url = '';
+    await AppContext.run(context.app.getContainer(), () => {
+      url = context.router.signedUrl('invoices.show', params, options);
+    });
+    return url;
+  };
+
+  return { ...context, sign };
+}
+
+describe('signed URLs', () => {
+  test('lets requests with a valid signature through', async () => {
+    const { request, sign } = createServer();
+    const url = await sign({ id: '7' }, { query: { download: '1' } });
+
+    expect(url).toMatch(/^\/invoices\/7\?download=1&signature=/);
+    const response = await request(url);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: '7' });
+  });
+
+  test('accepts the query parameters in any order', async () => {
+    const { request, sign } = createServer();
+    const url = new URL(
+      await sign({ id: '7' }, { query: { a: '1', b: '2' } }),
+      'http://localhost'
+    );
+    const signature = url.searchParams.get('signature');
+
+    const reordered = `/invoices/7?signature=${signature}&b=2&a=1`;
+    expect((await request(reordered)).status).toBe(200);
+  });
+
+  test('rejects missing and tampered signatures', async () => {
+    const { request, sign } = createServer();
+    const url = await sign({ id: '7' });
+
+    expect((await request('/invoices/7')).status).toBe(403);
+    expect((await request(url.replace('/7?', '/8?'))).status).toBe(403);
+    expect((await request(`${url}&extra=1`)).status).toBe(403);
+    const last = url.endsWith('a') ? 'b' : 'a';
+    expect((await request(`${url.slice(0, -1)}${last}`)).status).toBe(403);
+  });
+
+  test('rejects signatures made with another key', async () => {
+    const { sign } = createServer({ 'app.key': 'another-key' });
+    const { request } = createServer();
+
+    expect((await request(await sign({ id: '7' }))).status).toBe(403);
+  });
+
+  test('rejects expired temporary URLs', async () => {
+    const { request, sign } = createServer();
+    const response = await request(await sign({ id: '7' }, { expiresIn: -1 }));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).message).toBe('Signature expired');
+  });
+
+  test('rejects a temporary URL whose expiry was changed', async () => {
+    const { request, sign } = createServer();
+    const url = await sign({ id: '7' }, { expiresIn: 60 });
+    const extended = url.replace(/expires=(\d+)/, (_match, expires) => {
+      return `expires=${Number(expires) + 3600}`;
+    });
+
+    expect((await request(url)).status).toBe(200);
+    expect((await request(extended)).status).toBe(403);
+  });
+
+  test('sends problem details when configured', async () => {
+    const { request } = createServer({ 'app.problemDetails': true });
+    const response = await request('/invoices/7', {
+      headers: { Accept: 'application/json' },
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('Content-Type')).toContain(
+      'application/problem+json'
+    );
+  });
+});
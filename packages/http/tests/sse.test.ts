@@ -0,0 +1,71 @@
+import { ServerSentEventSender } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './helpers';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createServer() {
+  const senders: ServerSentEventSender[] = [];
+  const context = createTestServer((router) => {
+    router.get('/events', async (_req, res) =>
+      res.sse(
+        async (send) => {
+          send({ hello: 'world' }, { id: 1, event: 'greeting' });
+          send('two\nlines');
+        },
+        { retry: 3000, heartbeat: 0 }
+      )
+    );
+    router.get('/live', async (_req, res) =>
+      res.sse(
+        async (send) => {
+          senders.push(send);
+          while (!send.closed) await sleep(5);
+        },
+        { heartbeat: 10 }
+      )
+    );
+  });
+  return { ...context, senders };
+}
+
+describe('server-sent events', () => {
+  test('formats events and closes when the handler settles', async () => {
+    const { request } = createServer();
+    const response = await request('/events');
+
+    expect(response.headers.get('Content-Type')).toBe(
+      'text/event-stream; charset=utf-8'
+    );
+    expect(response.headers.get('Cache-Control')).toBe('no-cache');
+    expect(await response.text()).toBe(
+      'retry: 3000\n\n' +
+        'id: 1\nevent: greeting\ndata: {"hello":"world"}\n\n' +
+        'data: two\ndata: lines\n\n'
+    );
+  });
+
+  test('stops the stream when the client goes away', async () => {
+    const { request, senders } = createServer();
+    const response = await request('/live');
+    const reader = response.body!.getReader();
+
+    expect(new TextDecoder().decode((await reader.read()).value)).toBe(
+      ': heartbeat\n\n'
+    );
+    await reader.cancel();
+
+    expect(senders[0].signal.aborted).toBe(true);
+  });
+
+  test('stops the stream for HEAD requests', async () => {
+    const { request, senders } = createServer();
+    const response = await request('/live', { method: 'HEAD' });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('');
+    await sleep(20);
+    expect(senders).toHaveLength(1);
+    expect(senders[0].closed).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+import { StaticOptions } from '@blitzbun/contracts';
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import createStaticMiddleware from '../src/middlewares/static';
+import { createTestServer } from './helpers';
+
+const base = mkdtempSync(join(tmpdir(), 'blitzbun-static-'));
+const root = join(base, 'public');
+mkdirSync(join(root, 'docs'), { recursive: true });
+writeFileSync(join(root, 'app.css'), 'body{}');
+writeFileSync(join(root, 'app.js'), 'console.log(1)');
+writeFileSync(join(root, 'app.js.gz'), 'gzipped');
+writeFileSync(join(root, '.env'), 'SECRET=1');
+writeFileSync(join(root, 'docs', 'index.html'), '<h1>Docs</h1>');
+writeFileSync(join(base, 'secret.txt'), 'secret');
+
+afterAll(() => rmSync(base, { recursive: true, force: true }));
+
+function createServer(options: StaticOptions = {}) {
+  const context = createTestServer((router) => {
+    router.get('/api/status', async (_req, res) => res.json({ ok: true }));
+    router.post('/app.css', async (_req, res) => res.text('route'));
+  });
+  context.server.useBeforeRouting(
+    createStaticMiddleware({ roots: [root], ...options })
+  );
+  return context;
+}
+
+describe('static files', () => {
+  test('serves files and falls through to routes', async () => {
+    const { request } = createServer();
+    const file = await request('/app.css');
+
+    expect(file.status).toBe(200);
+    expect(file.headers.get('Content-Type')).toContain('text/css');
+    expect(await file.text()).toBe('body{}');
+    expect((await request('/api/status')).status).toBe(200);
+    expect((await request('/missing.css')).status).toBe(404);
+  });
+
+  test('only serves GET and HEAD', async () => {
+    const { request } = createServer();
+    const response = await request('/app.css', { method: 'POST' });
+
+    expect(await response.text()).toBe('route');
+  });
+
+  test('refuses traversal, encoded or not', async () => {
+    const { request } = createServer();
+
+    expect((await request('/../secret.txt')).status).toBe(404);
+    expect((await request('/%2e%2e/secret.txt')).status).toBe(404);
+    expect((await request('/..%2fsecret.txt')).status).toBe(404);
+    expect((await request('/%E0%A4%A')).status).toBe(404);
+  });
+
+  test('hides dotfiles unless enabled', async () => {
+    expect((await createServer().request('/.env')).status).toBe(404);
+    expect(
+      (await createServer({ dotfiles: true }).request('/.env')).status
+    ).toBe(200);
+  });
+
+  test('serves index files and redirects directories to a slash', async () => {
+    const { request } = createServer();
+    const redirect = await request('/docs?page=2');
+
+    expect(redirect.status).toBe(301);
+    expect(redirect.headers.get('Location')).toBe('/docs/?page=2');
+
+    const index = await request('/docs/');
+    expect(index.status).toBe(200);
+    expect(await index.text()).toBe('<h1>Docs</h1>');
+  });
+
+  test('serves precompressed siblings when accepted', async () => {
+    const { request } = createServer();
+    const compressed = await request('/app.js', {
+      headers: { 'Accept-Encoding': 'gzip' },
+    });
+
+    expect(compressed.headers.get('Content-Encoding')).toBe('gzip');
+    expect(compressed.headers.get('Content-Type')).toContain('javascript');
+    expect(compressed.headers.get('Vary')).toContain('Accept-Encoding');
+    expect(await compressed.text()).toBe('gzipped');
+
+    const plain = await request('/app.js');
+    expect(plain.headers.get('Content-Encoding')).toBeNull();
+    expect(await plain.text()).toBe('console.log(1)');
+  });
+
+  test('serves files under a prefix only', async () => {
+    const { request } = createServer({ prefix: '/assets' });
+
+    expect((await request('/assets/app.js')).status).toBe(200);
+    expect((await request('/app.js')).status).toBe(404);
+  });
+
+  test('applies cache options by extension and answers 304', async () => {
+    const { request } = createServer({
+      cache: { css: { public: true, maxAge: 60 }, '*': { noCache: true } },
+    });
+    const css = await request('/app.css');
+
+    expect(css.headers.get('Cache-Control')).toBe('public, max-age=60');
+    expect((await request('/app.js')).headers.get('Cache-Control')).toBe(
+      'no-cache'
+    );
+
+    const cached = await request('/app.css', {
+      headers: { 'If-None-Match': css.headers.get('ETag')! },
+    });
+    expect(cached.status).toBe(304);
+  });
+});
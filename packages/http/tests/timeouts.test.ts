@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { createTestServer } from './helpers';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createServer(timeout = 50) {
+  const aborted: unknown[] = [];
+  const context = createTestServer(
+    (router) => {
+      router.get('/fast', async (_req, res) => res.json({ ok: true }));
+      router.get('/slow', async (req, res) => {
+        req.signal.addEventListener('abort', () =>
+          aborted.push(req.signal.reason)
+        );
+        await sleep(200);
+        return res.json({ ok: true });
+      });
+      router.get(
+        '/slow/allowed',
+        async (_req, res) => {
+          await sleep(100);
+          return res.json({ ok: true });
+        },
+        { timeout: false }
+      );
+      router.get(
+        '/slow/shorter',
+        async (_req, res) => {
+          await sleep(100);
+          return res.json({ ok: true });
+        },
+        { timeout: 10 }
+      );
+      router.get('/disconnect', async (req, res) => {
+        while (!req.signal.aborted) await sleep(5);
+        return res.json({ aborted: req.signal.aborted });
+      });
+    },
+    { config: { 'app.timeout': timeout } }
+  );
+  return { ...context, aborted };
+}
+
+describe('request timeouts', () => {
+  test('answers requests that finish in time', async () => {
+    const { request } = createServer();
+
+    expect((await request('/fast')).status).toBe(200);
+  });
+
+  test('answers slow requests with 503 and aborts req.signal', async () => {
+    const { request, aborted } = createServer();
+    const response = await request('/slow');
+
+    expect(response.status).toBe(503);
+    expect(aborted).toHaveLength(1);
+    expect((aborted[0] as DOMException).name).toBe('TimeoutError');
+  });
+
+  test('lets route meta override the global timeout', async () => {
+    const { request } = createServer();
+
+    expect((await request('/slow/allowed')).status).toBe(200);
+    expect((await createServer(0).request('/slow/shorter')).status).toBe(503);
+  });
+
+  test('turns the timeout off with 0', async () => {
+    const { request } = createServer(0);
+
+    expect((await request('/slow')).status).toBe(200);
+  });
+
+  test('aborts req.signal when the client disconnects', async () => {
+    const { request } = createServer(0);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const response = await request('/disconnect', {
+      signal: controller.signal,
+    });
+
+    expect(await response.json()).toEqual({ aborted: true });
+  });
+});
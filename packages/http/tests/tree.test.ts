@@ -0,0 +1,101 @@
+import { HttpMethod } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import { HttpRouter } from '../src';
+
+const handler = async () => {};
+
+function routerWith(...paths: string[]): HttpRouter {
+  const router = new HttpRouter();
+  for (const path of paths) router.get(path, handler);
+  return router;
+}
+
+const matched = (router: HttpRouter, url: string) =>
+  router.match(HttpMethod.GET, url)?.getPath();
+
+describe('route tree', () => {
+  test('prefers static segments over params over wildcards', () => {
+    const router = routerWith('/users/*', '/users/:id', '/users/me');
+
+    expect(matched(router, '/users/me')).toBe('/users/me');
+    expect(matched(router, '/users/42')).toBe('/users/:id');
+    expect(matched(router, '/users/42/photos')).toBe('/users/*');
+  });
+
+  test('backtracks when a more specific branch has no route', () => {
+    const router = routerWith('/users/me/settings', '/users/:id/posts');
+
+    expect(matched(router, '/users/me/posts')).toBe('/users/:id/posts');
+  });
+
+  test('matches optional params with and without a value', () => {
+    const router = routerWith('/posts/:id/:slug?');
+
+    expect(matched(router, '/posts/1')).toBe('/posts/:id/:slug?');
+    expect(matched(router, '/posts/1/hello')).toBe('/posts/:id/:slug?');
+    expect(matched(router, '/posts')).toBeUndefined();
+  });
+
+  test('matches params with an extension suffix', () => {
+    const router = routerWith('/files/:name.json', '/files/:name');
+
+    expect(matched(router, '/files/report.json')).toBe('/files/:name.json');
+    expect(matched(router, '/files/report')).toBe('/files/:name');
+    expect(matched(router, '/files/.json')).toBe('/files/:name');
+  });
+
+  test('ignores case and trailing slashes on static segments', () => {
+    const router = routerWith('/Users/List');
+
+    expect(matched(router, '/users/list')).toBe('/Users/List');
+    expect(matched(router, '/USERS/LIST/')).toBe('/Users/List');
+  });
+
+  test('requires a wildcard to match something', () => {
+    const router = routerWith('/files/*');
+
+    expect(matched(router, '/files')).toBeUndefined();
+    expect(matched(router, '/files/')).toBe('/files/*');
+    expect(matched(router, '/files/a/b')).toBe('/files/*');
+  });
+
+  test('matches optional wildcards with and without the tail', () => {
+    const router = routerWith('/opt/*?');
+
+    expect(matched(router, '/opt')).toBe('/opt/*?');
+    expect(matched(router, '/opt/')).toBe('/opt/*?');
+    expect(matched(router, '/opt/a/b')).toBe('/opt/*?');
+    expect(matched(router, '/optx')).toBeUndefined();
+  });
+
+  test('agrees with the route pattern on wildcards', () => {
+    for (const path of ['/files/*', '/files/*?']) {
+      const router = routerWith(path);
+      const [route] = router.getRoutes();
+
+      for (const url of ['/files', '/files/', '/files/a', '/files/a/b']) {
+        expect(route.matches(HttpMethod.GET, url)).toBe(
+          matched(router, url) !== undefined
+        );
+      }
+    }
+  });
+
+  test('keeps the first route registered for the same path', () => {
+    const router = new HttpRouter();
+    router.get('/same', handler, { name: 'first' });
+    router.get('/same', handler, { name: 'second' });
+
+    expect(router.match(HttpMethod.GET, '/same')?.getModule().name).toBe(
+      'first'
+    );
+  });
+
+  test('keeps routes of other methods apart', () => {
+    const router = new HttpRouter();
+    router.post('/items', handler);
+
+    expect(router.match(HttpMethod.GET, '/items')).toBeUndefined();
+    expect(router.match(HttpMethod.POST, '/items')?.getPath()).toBe('/items');
+  });
+});
@@ -0,0 +1,106 @@
+import { TrustProxyOption } from '@blitzbun/contracts';
+import { describe, expect, test } from 'bun:test';
+import compileTrust from '../src/utils/trust-proxy';
+import { createTestServer } from './helpers';
+
+describe('compileTrust', () => {
+  test('trusts nobody by default', () => {
+    for (const option of [undefined, false, '', 'false']) {
+      expect(compileTrust(option)('127.0.0.1', 0)).toBe(false);
+    }
+  });
+
+  test('trusts everybody for true', () => {
+    expect(compileTrust(true)('203.0.113.1', 5)).toBe(true);
+    expect(compileTrust('true')('203.0.113.1', 5)).toBe(true);
+  });
+
+  test('trusts a number of hops', () => {
+    const trust = compileTrust('2');
+
+    expect(trust('203.0.113.1', 0)).toBe(true);
+    expect(trust('203.0.113.1', 1)).toBe(true);
+    expect(trust('203.0.113.1', 2)).toBe(false);
+  });
+
+  test('trusts addresses, subnets and presets', () => {
+    const trust = compileTrust('loopback, 203.0.113.7, 10.0.0.0/8');
+
+    expect(trust('127.0.0.1', 0)).toBe(true);
+    expect(trust('::1', 0)).toBe(true);
+    expect(trust('203.0.113.7', 0)).toBe(true);
+    expect(trust('10.20.30.40', 0)).toBe(true);
+    expect(trust('203.0.113.8', 0)).toBe(false);
+    expect(trust('not-an-ip', 0)).toBe(false);
+  });
+
+  test('rejects invalid addresses', () => {
+    expect(() => compileTrust(['300.0.0.1'])).toThrow(
+      'Invalid trusted proxy address'
+    );
+  });
+});
+
+function createServer(trustProxy: TrustProxyOption, remoteAddress: string) {
+  return createTestServer(
+    (router) => {
+      router.get('/whoami', async (req, res) =>
+        res.json({
+          ip: req.ip,
+          ips: req.ips,
+          protocol: req.protocol,
+          secure: req.secure,
+          hostname: req.hostname,
+        })
+      );
+    },
+    { config: { 'app.trustProxy': trustProxy }, remoteAddress }
+  );
+}
+
+const FORWARDED = {
+  'X-Forwarded-For': '198.51.100.1, 10.0.0.2',
+  'X-Forwarded-Proto': 'https',
+  'X-Forwarded-Host': 'example.com',
+};
+
+async function whoami(trustProxy: TrustProxyOption, remoteAddress: string) {
+  const { request } = createServer(trustProxy, remoteAddress);
+  const response = await request('/whoami', { headers: FORWARDED });
+  return response.json();
+}
+
+describe('requests behind proxies', () => {
+  test('ignores forwarded headers from untrusted peers', async () => {
+    expect(await whoami(false, '203.0.113.9')).toEqual({
+      ip: '203.0.113.9',
+      ips: [],
+      protocol: 'http',
+      secure: false,
+      hostname: 'localhost',
+    });
+  });
+
+  test('reads forwarded headers from trusted proxies', async () => {
+    expect(await whoami('10.0.0.0/8', '10.0.0.1')).toEqual({
+      ip: '198.51.100.1',
+      ips: ['198.51.100.1', '10.0.0.2'],
+      protocol: 'https',
+      secure: true,
+      hostname: 'example.com',
+    });
+  });
+
+  test('stops at the first untrusted hop', async () => {
+    const result = await whoami('10.0.0.1', '10.0.0.1');
+
+    expect(result.ip).toBe('10.0.0.2');
+    expect(result.ips).toEqual(['10.0.0.2']);
+  });
+
+  test('counts hops when trusting a number of proxies', async () => {
+    expect((await whoami(1, '203.0.113.9')).ip).toBe('10.0.0.2');
+    expect((await whoami(2, '203.0.113.9')).ip).toBe('198.51.100.1');
+    expect((await whoami(5, '203.0.113.9')).ip).toBe('198.51.100.1');
+  });
+});